@@ -0,0 +1,138 @@
+import type { AuthorizationType } from "./index";
+import type { Middleware, MiddlewareContext } from "./middleware";
+
+/** Esquemas de `AuthorizationType` ("Bearer", "Basic", "Token"...). */
+export type AuthScheme =
+  | (AuthorizationType extends infer A
+      ? A extends `${infer Scheme} ${string}`
+        ? Scheme
+        : never
+      : never)
+  | (string & {});
+
+/**
+ * 🔐 **Gestor de autenticación**
+ * Inyecta el token en cada petición y, si el servidor lo rechaza, lo refresca
+ * UNA sola vez (aunque fallen muchas peticiones a la vez) y repite las peticiones.
+ *
+ * @example
+ * auth: {
+ *   getToken: () => localStorage.getItem("token"),
+ *   refreshToken: async () => {
+ *     const { token } = await refreshApi.post<{ token: string }>("/refresh");
+ *     localStorage.setItem("token", token);
+ *     return token;
+ *   },
+ *   onAuthFailure: () => router.push("/login"),
+ * }
+ */
+export interface AuthOptions {
+  /** Token actual (puede ser async). Si devuelve null/undefined, no se envía header. */
+  getToken: () =>
+    string | null | undefined | Promise<string | null | undefined>;
+  /**
+   * Obtiene un token nuevo. Puede devolverlo o guardarlo y devolver void
+   * (en ese caso se vuelve a llamar a `getToken`).
+   * Sin `refreshToken`, los errores de auth se devuelven tal cual.
+   */
+  refreshToken?: () => Promise<string | null | undefined | void>;
+  /** Decide si una respuesta indica que el token no es válido. Default: status 401 */
+  isAuthError?: (response: Response) => boolean | Promise<boolean>;
+  /** Esquema del header. Default: "Bearer" */
+  scheme?: AuthScheme;
+  /** Header donde se envía el token. Default: "Authorization" */
+  header?: string;
+  /** Se ejecuta (una vez por refresh) cuando `refreshToken` falla o no devuelve token. */
+  onAuthFailure?: (error: unknown) => void | Promise<void>;
+}
+
+/**
+ * Crea el middleware de autenticación (scope "request").
+ * Se ejecuta dentro de los reintentos de red: la repetición tras el refresh
+ * vuelve a pasar por caché, deduplicación y reintentos.
+ *
+ * @param getOptions Devuelve la configuración global vigente.
+ */
+export function createAuthManager(
+  getOptions: () => AuthOptions | undefined,
+): Middleware {
+  let refreshing: Promise<string | null | undefined> | undefined;
+
+  const setToken = (
+    ctx: MiddlewareContext,
+    options: AuthOptions,
+    token: string | null | undefined,
+  ) => {
+    if (!token) return;
+    const { header = "Authorization", scheme = "Bearer" } = options;
+    ctx.init = {
+      ...ctx.init,
+      headers: {
+        ...ctx.init.headers,
+        [header]: scheme ? `${scheme} ${token}` : token,
+      },
+    };
+  };
+
+  /**
+   * Refresco single-flight: las llamadas concurrentes comparten la misma promesa.
+   * Si otro refresco ya cambió el token desde que se envió la petición, se reutiliza.
+   */
+  const refresh = (
+    options: AuthOptions,
+    usedToken: string | null | undefined,
+  ): Promise<string | null | undefined> => {
+    refreshing ??= (async () => {
+      try {
+        const current = await options.getToken();
+        if (current && current !== usedToken) return current;
+
+        const refreshed = await options.refreshToken!();
+        const token =
+          typeof refreshed === "string" ? refreshed : await options.getToken();
+        if (!token) throw new Error("refreshToken did not return a token");
+        return token;
+      } catch (error) {
+        await options.onAuthFailure?.(error);
+        throw error;
+      } finally {
+        refreshing = undefined;
+      }
+    })();
+    return refreshing;
+  };
+
+  return async (ctx, next) => {
+    const options = getOptions();
+    if (!options || ctx.init.auth === false) return next();
+
+    // Si hay un refresco en curso, no tiene sentido salir con el token viejo
+    const token = refreshing
+      ? await refreshing.catch(() => options.getToken())
+      : await options.getToken();
+    setToken(ctx, options, token);
+
+    const response = await next();
+
+    const isAuthError = options.isAuthError
+      ? await options.isAuthError(response)
+      : response.status === 401;
+    if (!isAuthError || !options.refreshToken) return response;
+
+    // Un stream ya consumido no se puede volver a enviar
+    const body = ctx.init.body;
+    if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+      return response;
+
+    let fresh: string | null | undefined;
+    try {
+      fresh = await refresh(options, token);
+    } catch {
+      return response; // El llamador recibe el error de auth original
+    }
+
+    response.body?.cancel().catch(() => {});
+    setToken(ctx, options, fresh);
+    return next();
+  };
+}
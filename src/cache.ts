@@ -0,0 +1,367 @@
+import type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+} from "./middleware";
+
+/** Respuesta guardada en caché (serializable salvo `body`). */
+export interface CacheEntry {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer;
+  /** Momento en que se guardó (epoch ms). */
+  storedAt: number;
+  /** Hasta cuándo la entrada es fresca y se sirve sin tocar la red. */
+  expiresAt: number;
+  /** Hasta cuándo se puede servir caducada mientras se revalida en segundo plano. */
+  staleUntil: number;
+  etag?: string;
+  lastModified?: string;
+  /**
+   * Headers de la petición nombrados en `Vary` (en minúsculas) y su valor al guardar.
+   * La entrada solo se reutiliza si la nueva petición trae los mismos valores.
+   */
+  vary?: Record<string, string>;
+}
+
+/**
+ * 🗄️ **Almacenamiento de caché**
+ * Implementa esta interfaz para usar tu propio backend (IndexedDB, Redis, localStorage...).
+ * Todos los métodos pueden ser síncronos o asíncronos.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): Iterable<string> | Promise<Iterable<string>>;
+}
+
+/** ⚙️ Configuración global de la caché (`createSafeFetch({ cache })`). */
+export interface CacheOptions {
+  /** Dónde se guardan las respuestas. Default: LRU en memoria de 500 entradas. */
+  storage?: CacheStore;
+  /**
+   * Tiempo de vida por defecto (ms) si el servidor no envía `Cache-Control: max-age`.
+   * Default: 0 (se guarda solo para revalidar con ETag / Last-Modified).
+   */
+  ttl?: number;
+  /** Ventana (ms) en la que se sirve una respuesta caducada mientras se revalida. Default: 0 */
+  staleWhileRevalidate?: number;
+}
+
+/** ⚙️ Opciones de caché por petición (`api.get(url, { cache: {...} })`). */
+export interface RequestCacheOptions {
+  /** Tiempo de vida (ms). Tiene prioridad sobre `Cache-Control: max-age`. */
+  ttl?: number;
+  /**
+   * Clave personalizada. Default: la URL final (con params).
+   * Las peticiones con `Authorization` solo se cachean si se indica una `key`
+   * (que debe distinguir al usuario).
+   */
+  key?: string;
+  /** Ventana (ms) stale-while-revalidate para esta petición. */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Crea un almacenamiento LRU en memoria.
+ * @param maxEntries Número máximo de respuestas guardadas. Default: 500
+ */
+export function createMemoryCache(maxEntries: number = 500): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insertamos para marcarla como usada recientemente
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    keys() {
+      return Array.from(entries.keys());
+    },
+  };
+}
+
+/**
+ * Capa de caché HTTP de una instancia: middleware + utilidades de invalidación.
+ * @param getOptions Devuelve la configuración global vigente (puede cambiar con `configure`).
+ */
+export function createHttpCache(
+  getOptions: () => boolean | CacheOptions | undefined,
+) {
+  let defaultStorage: CacheStore | undefined;
+
+  const getStorage = (): CacheStore => {
+    const options = getOptions();
+    if (typeof options === "object" && options.storage) return options.storage;
+    return (defaultStorage ??= createMemoryCache());
+  };
+
+  /** Decide si la petición usa caché y con qué opciones. */
+  const resolve = (ctx: MiddlewareContext): ResolvedCache | undefined => {
+    const method = (ctx.init.method ?? "GET").toUpperCase();
+    if (method !== "GET") return undefined;
+
+    const perRequest = ctx.init.cache;
+    if (perRequest === false || typeof perRequest === "string")
+      return undefined;
+
+    const headers = (ctx.init.headers ?? {}) as Record<string, string>;
+    const names = Object.keys(headers).map((h) => h.toLowerCase());
+    const hasConditional = names.some((h) =>
+      ["if-none-match", "if-modified-since"].includes(h),
+    );
+    if (hasConditional) return undefined; // El usuario gestiona su propia revalidación
+
+    // Datos de un usuario: sin una `key` propia se servirían a cualquier otro
+    if (names.includes("authorization") && !perRequest?.key) return undefined;
+
+    const global = getOptions();
+    if (!global && !perRequest) return undefined;
+
+    return {
+      global: typeof global === "object" ? global : {},
+      request: perRequest ?? {},
+    };
+  };
+
+  const store = async (
+    key: string,
+    ctx: MiddlewareContext,
+    response: Response,
+    { global, request }: ResolvedCache,
+  ) => {
+    const directives = parseCacheControl(response.headers.get("Cache-Control"));
+    if (directives.has("no-store")) return;
+
+    // `Vary: *`: la respuesta depende de algo que no vemos
+    const vary = varyValues(response.headers.get("Vary"), ctx);
+    if (!vary) return;
+
+    // Prioridad: opción por petición > directiva del servidor > opción global
+    const now = Date.now();
+    const ttl = directives.has("no-cache")
+      ? 0
+      : (request.ttl ?? seconds(directives.get("max-age")) ?? global.ttl ?? 0);
+    const swr = directives.has("must-revalidate")
+      ? 0
+      : (request.staleWhileRevalidate ??
+        seconds(directives.get("stale-while-revalidate")) ??
+        global.staleWhileRevalidate ??
+        0);
+
+    const etag = response.headers.get("ETag") ?? undefined;
+    const lastModified = response.headers.get("Last-Modified") ?? undefined;
+
+    // Sin frescura ni validadores, guardar no aporta nada
+    if (ttl <= 0 && swr <= 0 && !etag && !lastModified) return;
+
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+
+    await getStorage().set(key, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.clone().arrayBuffer(),
+      storedAt: now,
+      expiresAt: now + ttl,
+      staleUntil: now + ttl + swr,
+      etag,
+      lastModified,
+      vary: Object.keys(vary).length ? vary : undefined,
+    });
+  };
+
+  /** Pide la respuesta a la red (condicional si hay validadores) y actualiza la caché. */
+  const refresh = async (
+    ctx: MiddlewareContext,
+    next: MiddlewareNext,
+    key: string,
+    options: ResolvedCache,
+    entry?: CacheEntry,
+  ): Promise<Response> => {
+    if (entry?.etag || entry?.lastModified) {
+      const conditional: Record<string, string> = {};
+      if (entry.etag) conditional["If-None-Match"] = entry.etag;
+      if (entry.lastModified)
+        conditional["If-Modified-Since"] = entry.lastModified;
+      ctx.init = {
+        ...ctx.init,
+        headers: { ...ctx.init.headers, ...conditional },
+      };
+    }
+
+    const response = await next();
+
+    if (response.status === 304 && entry) {
+      // El servidor confirma que nuestra copia sigue siendo válida
+      const merged = new Headers(entry.headers);
+      response.headers.forEach((value, name) => merged.set(name, value));
+      const revalidated = new Response(entry.body.slice(0), {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers: merged,
+      });
+      await store(key, ctx, revalidated, options);
+      return revalidated;
+    }
+
+    if (response.status === 200) await store(key, ctx, response, options);
+    return response;
+  };
+
+  /**
+   * Middleware de caché (scope "request").
+   * Sirve respuestas frescas, aplica stale-while-revalidate y revalida con ETag.
+   */
+  const middleware: Middleware = async (ctx, next) => {
+    const options = resolve(ctx);
+    if (!options) return next();
+
+    const key = options.request.key ?? ctx.url;
+    const stored = await getStorage().get(key);
+    // Otra variante (`Accept-Language`, `Accept`...): como si no estuviera
+    const entry = stored && matchesVary(stored, ctx) ? stored : undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) return toResponse(entry);
+
+    if (entry && now < entry.staleUntil) {
+      // Servimos la copia caducada y revalidamos en segundo plano
+      refresh(ctx, next, key, options, entry).catch(() => {});
+      return toResponse(entry);
+    }
+
+    return refresh(ctx, next, key, options, entry);
+  };
+
+  /**
+   * Elimina entradas de la caché.
+   * @param pattern
+   * - string: clave exacta o glob con `*` (ej: `"/users/*"`). Las rutas relativas
+   *   se comparan contra el path + query de cada URL guardada.
+   * - RegExp o función: se evalúa contra la clave completa.
+   * @returns Número de entradas eliminadas.
+   */
+  const invalidate = async (
+    pattern: string | RegExp | ((key: string) => boolean),
+  ): Promise<number> => {
+    const storage = getStorage();
+    const matches =
+      typeof pattern === "function"
+        ? pattern
+        : pattern instanceof RegExp
+          ? (key: string) => pattern.test(key)
+          : globMatcher(pattern);
+
+    let removed = 0;
+    for (const key of Array.from(await storage.keys())) {
+      if (matches(key)) {
+        await storage.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  /** Vacía la caché por completo. */
+  const clear = () => invalidate(() => true);
+
+  return { middleware, invalidate, clear };
+}
+
+interface ResolvedCache {
+  global: CacheOptions;
+  request: RequestCacheOptions;
+}
+
+/**
+ * Valor actual de los headers de la petición nombrados en `Vary`.
+ * @returns `undefined` si es `Vary: *` (no se puede reutilizar nunca).
+ */
+function varyValues(
+  header: string | null,
+  ctx: MiddlewareContext,
+): Record<string, string> | undefined {
+  const names = (header ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.includes("*")) return undefined;
+
+  const headers = Object.entries(
+    (ctx.init.headers ?? {}) as Record<string, string>,
+  );
+  const values: Record<string, string> = {};
+  for (const name of names) {
+    values[name] =
+      headers.find(([key]) => key.toLowerCase() === name)?.[1] ?? "";
+  }
+  return values;
+}
+
+function matchesVary(entry: CacheEntry, ctx: MiddlewareContext): boolean {
+  if (!entry.vary) return true;
+  const current = varyValues(Object.keys(entry.vary).join(","), ctx);
+  return Object.entries(entry.vary).every(
+    ([name, value]) => current?.[name] === value,
+  );
+}
+
+function seconds(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed * 1000;
+}
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(entry.body.slice(0), {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+/** Interpreta `Cache-Control` en un mapa directiva -> valor (en minúsculas). */
+function parseCacheControl(header: string | null): Map<string, string> {
+  const directives = new Map<string, string>();
+  for (const part of (header ?? "").split(",")) {
+    const [name, value] = part.trim().split("=");
+    if (name)
+      directives.set(name.toLowerCase(), value?.replace(/"/g, "") ?? "");
+  }
+  return directives;
+}
+
+function globMatcher(pattern: string) {
+  const regex = new RegExp(
+    `^${pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+  );
+  return (key: string) => {
+    if (regex.test(key)) return true;
+    try {
+      const url = new URL(key);
+      return regex.test(url.pathname + url.search);
+    } catch {
+      return false;
+    }
+  };
+}
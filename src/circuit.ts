@@ -0,0 +1,291 @@
+import {
+  CircuitOpenError,
+  NetworkError,
+  QueueTimeoutError,
+  TimeoutError,
+} from "./errors";
+import { getOrigin } from "./query";
+
+/** Estados del circuito. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Resultado de un intento, para decidir si cuenta como fallo. */
+export interface CircuitOutcome {
+  response?: Response;
+  error?: unknown;
+}
+
+/** Cambio de estado notificado por `onStateChange`. */
+export interface CircuitStateChange {
+  key: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Tasa de fallos de la ventana (0-1) en el momento del cambio. */
+  failureRate: number;
+}
+
+/**
+ * ⚡ **Circuit breaker**
+ * Si un servicio falla demasiado, deja de llamarlo durante un tiempo y las
+ * peticiones fallan al instante con `CircuitOpenError` (sin reintentos ni espera).
+ *
+ * @example
+ * circuitBreaker: {
+ *   failureThreshold: 0.5,
+ *   minimumRequests: 10,
+ *   resetTimeout: 30_000,
+ *   onStateChange: ({ key, to }) => metrics.gauge(`circuit.${key}`, to),
+ * }
+ */
+export interface CircuitBreakerOptions {
+  /** Agrupa las peticiones en circuitos. Default: origin de la URL */
+  key?: (url: string, method: string) => string;
+  /** Ventana deslizante (ms) en la que se calcula la tasa de fallos. Default: 60000 */
+  window?: number;
+  /** Tasa de fallos (0-1) a partir de la cual se abre el circuito. Default: 0.5 */
+  failureThreshold?: number;
+  /** Intentos mínimos en la ventana antes de poder abrir. Default: 10 */
+  minimumRequests?: number;
+  /** Tiempo (ms) abierto antes de dejar pasar peticiones de prueba. Default: 30000 */
+  resetTimeout?: number;
+  /** Peticiones de prueba en half-open; si todas van bien, se cierra. Default: 1 */
+  halfOpenRequests?: number;
+  /**
+   * Qué cuenta como fallo.
+   * Default: `NetworkError`, `TimeoutError` (no los de cola) y status >= 500.
+   */
+  isFailure?: (outcome: CircuitOutcome) => boolean;
+  /** Se ejecuta en cada cambio de estado. */
+  onStateChange?: (change: CircuitStateChange) => void;
+  /** Reloj (ms). Inyectable para tests deterministas. Default: `Date.now` */
+  now?: () => number;
+}
+
+/** 📊 Estado de un circuito (`api.circuits.get(key)`). */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  /** Intentos registrados en la ventana. */
+  requests: number;
+  /** Fallos registrados en la ventana. */
+  failures: number;
+  /** `failures / requests` (0 si no hay intentos). */
+  failureRate: number;
+  /** Momento (ms) en que pasará a half-open, si está abierto. */
+  retryAt?: number;
+}
+
+/** Acceso a los circuitos de una instancia (`api.circuits`). */
+export interface CircuitRegistry {
+  /** Estado del circuito `key` (por defecto, un origin como `"https://api.example.com"`). */
+  get(key: string): CircuitSnapshot | undefined;
+  /** Claves de los circuitos conocidos. */
+  keys(): string[];
+  /** Cierra y vacía un circuito, o todos si no se indica `key`. */
+  reset(key?: string): void;
+}
+
+/** Permiso para enviar un intento. Hay que llamar a `done` con su resultado. */
+export interface CircuitPermit {
+  /** Registra el resultado. `undefined` = no cuenta (ej: cancelado por el usuario). */
+  done(outcome?: CircuitOutcome): void;
+}
+
+interface Circuit {
+  state: CircuitState;
+  /** Resultados recientes (true = fallo), del más antiguo al más nuevo. */
+  events: { time: number; failed: boolean }[];
+  openedAt: number;
+  probes: number;
+  probeSuccesses: number;
+}
+
+const DEFAULTS = {
+  window: 60_000,
+  failureThreshold: 0.5,
+  minimumRequests: 10,
+  resetTimeout: 30_000,
+  halfOpenRequests: 1,
+};
+
+/** Fallos por defecto: red, timeouts reales (no de cola) y errores del servidor. */
+function defaultIsFailure({ response, error }: CircuitOutcome): boolean {
+  if (response) return response.status >= 500;
+  return (
+    error instanceof NetworkError ||
+    (error instanceof TimeoutError && !(error instanceof QueueTimeoutError))
+  );
+}
+
+/**
+ * Crea los circuitos de una instancia.
+ * Los cambios open -> half-open se evalúan al llegar una petición (o al consultar
+ * el estado), así que no hay timers y el reloj inyectado basta para los tests.
+ *
+ * @param getOptions Devuelve la configuración global vigente.
+ */
+export function createCircuitBreaker(
+  getOptions: () => boolean | CircuitBreakerOptions | undefined,
+) {
+  const circuits = new Map<string, Circuit>();
+
+  const resolveOptions = () => {
+    const options = getOptions();
+    return typeof options === "object" ? options : {};
+  };
+
+  const now = () => (resolveOptions().now ?? Date.now)();
+
+  const stats = (circuit: Circuit) => {
+    const failures = circuit.events.filter((e) => e.failed).length;
+    const requests = circuit.events.length;
+    return {
+      requests,
+      failures,
+      failureRate: requests ? failures / requests : 0,
+    };
+  };
+
+  const transition = (key: string, circuit: Circuit, to: CircuitState) => {
+    const from = circuit.state;
+    if (from === to) return;
+    circuit.state = to;
+    circuit.probes = 0;
+    circuit.probeSuccesses = 0;
+    if (to === "open") circuit.openedAt = now();
+    const { failureRate } = stats(circuit);
+    if (to === "closed") circuit.events = [];
+    resolveOptions().onStateChange?.({ key, from, to, failureRate });
+  };
+
+  /** Descarta los resultados fuera de la ventana y pasa a half-open si toca. */
+  const refresh = (key: string, circuit: Circuit) => {
+    const { window = DEFAULTS.window, resetTimeout = DEFAULTS.resetTimeout } =
+      resolveOptions();
+    const time = now();
+    const firstValid = circuit.events.findIndex((e) => time - e.time < window);
+    circuit.events = firstValid === -1 ? [] : circuit.events.slice(firstValid);
+    if (circuit.state === "open" && time - circuit.openedAt >= resetTimeout) {
+      transition(key, circuit, "half-open");
+    }
+  };
+
+  const record = (key: string, circuit: Circuit, failed: boolean) => {
+    const {
+      failureThreshold = DEFAULTS.failureThreshold,
+      minimumRequests = DEFAULTS.minimumRequests,
+      halfOpenRequests = DEFAULTS.halfOpenRequests,
+    } = resolveOptions();
+
+    if (circuit.state === "half-open") {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      if (failed) return transition(key, circuit, "open");
+      circuit.probeSuccesses++;
+      if (circuit.probeSuccesses >= halfOpenRequests) {
+        transition(key, circuit, "closed");
+      }
+      return;
+    }
+
+    refresh(key, circuit);
+    circuit.events.push({ time: now(), failed });
+    const { requests, failureRate } = stats(circuit);
+    if (
+      circuit.state === "closed" &&
+      failed &&
+      requests >= minimumRequests &&
+      failureRate >= failureThreshold
+    ) {
+      transition(key, circuit, "open");
+    }
+  };
+
+  /**
+   * Pide permiso para enviar un intento.
+   * @returns `undefined` si el circuit breaker no aplica a esta petición.
+   * @throws {CircuitOpenError} Si el circuito está abierto (o sin huecos de prueba).
+   */
+  const enter = (
+    url: string,
+    method: string,
+    enabled: boolean | undefined,
+  ): CircuitPermit | undefined => {
+    if (!(enabled ?? !!getOptions())) return undefined;
+    const options = resolveOptions();
+    const key = options.key ? options.key(url, method) : getOrigin(url);
+
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        state: "closed",
+        events: [],
+        openedAt: 0,
+        probes: 0,
+        probeSuccesses: 0,
+      };
+      circuits.set(key, circuit);
+    }
+    refresh(key, circuit);
+
+    const { halfOpenRequests = DEFAULTS.halfOpenRequests } = options;
+    const busy =
+      circuit.state === "half-open" &&
+      circuit.probes + circuit.probeSuccesses >= halfOpenRequests;
+    if (circuit.state === "open" || busy) {
+      throw new CircuitOpenError(key, retryAt(circuit), { url, method });
+    }
+    if (circuit.state === "half-open") circuit.probes++;
+
+    const current = circuit;
+    const generation = current.state;
+    let settled = false;
+    return {
+      done(outcome) {
+        if (settled) return;
+        settled = true;
+        // El circuito cambió mientras el intento estaba en vuelo (ej: reset)
+        if (current !== circuits.get(key) || current.state !== generation) {
+          return;
+        }
+        if (!outcome) {
+          if (current.state === "half-open") {
+            current.probes = Math.max(0, current.probes - 1);
+          }
+          return;
+        }
+        const isFailure = resolveOptions().isFailure ?? defaultIsFailure;
+        record(key, current, isFailure(outcome));
+      },
+    };
+  };
+
+  const retryAt = (circuit: Circuit) =>
+    circuit.state === "open"
+      ? circuit.openedAt +
+        (resolveOptions().resetTimeout ?? DEFAULTS.resetTimeout)
+      : undefined;
+
+  const registry: CircuitRegistry = {
+    get(key) {
+      const circuit = circuits.get(key);
+      if (!circuit) return undefined;
+      refresh(key, circuit);
+      return {
+        state: circuit.state,
+        ...stats(circuit),
+        retryAt: retryAt(circuit),
+      };
+    },
+    keys: () => [...circuits.keys()],
+    reset(key) {
+      const targets = key === undefined ? [...circuits.keys()] : [key];
+      targets.forEach((k) => {
+        const circuit = circuits.get(k);
+        if (!circuit) return;
+        transition(k, circuit, "closed");
+        circuits.delete(k);
+      });
+    },
+  };
+
+  return { enter, registry };
+}
@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parseArgs } from "node:util";
+import { generateClient } from "./openapi";
+import type { OpenApiDocument } from "./openapi";
+
+const USAGE = `Usage: safe-fetch-gen <openapi.(json|yaml)> [options]
+
+Options:
+  -o, --output <file>   Write the client to <file> (default: stdout)
+  -n, --name <name>     Name of the client factory (default: createClient)
+  -b, --base-url <url>  Default baseUrl (default: first entry of "servers")
+  -i, --import <path>   Module to import safe-fetch from
+                        (default: @alexfalconflores/safe-fetch)
+  -h, --help            Show this help`;
+
+/**
+ * Parsea el spec según la extensión. YAML usa el paquete opcional `yaml`
+ * para que la librería siga sin dependencias.
+ */
+async function parseSpec(file: string, source: string): Promise<unknown> {
+  const extension = extname(file).toLowerCase();
+  if (extension !== ".yaml" && extension !== ".yml") return JSON.parse(source);
+
+  // Especificador en variable: `yaml` es opcional y no debe resolverse al compilar
+  const yamlModule = "yaml";
+  let yaml: { parse(source: string): unknown };
+  try {
+    yaml = await import(yamlModule);
+  } catch {
+    throw new Error(
+      `Reading YAML specs requires the "yaml" package: npm install -D yaml`,
+    );
+  }
+  return yaml.parse(source);
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      name: { type: "string", short: "n" },
+      "base-url": { type: "string", short: "b" },
+      import: { type: "string", short: "i" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const [input] = positionals;
+  const document = (await parseSpec(
+    input,
+    await readFile(input, "utf8"),
+  )) as OpenApiDocument;
+  const code = generateClient(document, {
+    clientName: values.name,
+    baseUrl: values["base-url"],
+    importPath: values.import,
+  });
+
+  if (values.output) {
+    await writeFile(values.output, code);
+    console.error(`✅ Client written to ${values.output}`);
+  } else {
+    process.stdout.write(code);
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,197 @@
+import type { createSafeFetch, RequestInitExt } from "./index";
+import type { PathParams, PathValue } from "./path";
+import { validateSchema } from "./schema";
+import type { StandardSchemaV1 } from "./schema";
+
+/** Métodos admitidos en las claves del contrato (`"GET /users/:id"`). */
+export type ContractMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Clave de una ruta: método + path (`"GET /users/:id"`). */
+export type RouteKey = `${ContractMethod} /${string}`;
+
+/**
+ * 📜 **Definición de una ruta**
+ * Cada campo es un Standard Schema (zod, valibot...) que además se valida en runtime,
+ * o un `typed<T>()` si solo quieres el tipo.
+ */
+export interface RouteSpec {
+  /** Parámetros del path (`:id` o `{id}`). Default: `string | number | boolean` por cada uno. */
+  params?: StandardSchemaV1;
+  /** Query params (se envían como `params`). */
+  query?: StandardSchemaV1;
+  /** Body de la petición (se valida como `bodySchema`). */
+  body?: StandardSchemaV1;
+  /** Respuesta (se valida como `schema`). */
+  response?: StandardSchemaV1;
+}
+
+type SchemaInput<S, K extends keyof RouteSpec, Fallback> = S extends {
+  [Key in K]: infer X extends StandardSchemaV1;
+}
+  ? StandardSchemaV1.InferInput<X>
+  : Fallback;
+
+type PathOption<S, P extends string> = [PathParams<P>] extends [never]
+  ? { path?: undefined }
+  : { path: SchemaInput<S, "params", Record<PathParams<P>, PathValue>> };
+
+type QueryOption<S> = S extends { query: StandardSchemaV1 }
+  ? {} extends SchemaInput<S, "query", {}>
+    ? { query?: SchemaInput<S, "query", {}> }
+    : { query: SchemaInput<S, "query", {}> }
+  : { query?: RequestInitExt["params"] };
+
+type BodyOption<S> = S extends { body: StandardSchemaV1 }
+  ? { body: SchemaInput<S, "body", never> }
+  : { body?: undefined };
+
+/** Opciones de una llamada: `path`, `query`, `body` + las de `RequestInitExt`. */
+export type ContractCallOptions<S, P extends string> = Omit<
+  RequestInitExt,
+  "method" | "body" | "params" | "schema" | "bodySchema"
+> &
+  PathOption<S, P> &
+  QueryOption<S> &
+  BodyOption<S>;
+
+/** Tipo de la respuesta de una ruta (`unknown` si no declara `response`). */
+export type ContractResponse<S> = S extends {
+  response: infer X extends StandardSchemaV1;
+}
+  ? StandardSchemaV1.InferOutput<X>
+  : unknown;
+
+/** Paths del contrato disponibles para un método. */
+type PathsOf<R, M extends ContractMethod> = {
+  [K in keyof R]: K extends `${M} ${infer P}` ? P : never;
+}[keyof R];
+
+type SpecOf<R, M extends ContractMethod, P extends string> = R[`${M} ${P}` &
+  keyof R];
+
+/** Las opciones solo son obligatorias si la ruta tiene algo obligatorio (path, body...). */
+type CallArgs<S, P extends string> =
+  {} extends ContractCallOptions<S, P>
+    ? [options?: ContractCallOptions<S, P>]
+    : [options: ContractCallOptions<S, P>];
+
+type ContractMethodFn<R, M extends ContractMethod> = <
+  P extends PathsOf<R, M> & string,
+>(
+  path: P,
+  ...args: CallArgs<SpecOf<R, M, P>, P>
+) => Promise<ContractResponse<SpecOf<R, M, P>>>;
+
+/** Cliente tipado generado por `defineApi`. */
+export interface ContractClient<R> {
+  get: ContractMethodFn<R, "GET">;
+  post: ContractMethodFn<R, "POST">;
+  put: ContractMethodFn<R, "PUT">;
+  patch: ContractMethodFn<R, "PATCH">;
+  delete: ContractMethodFn<R, "DELETE">;
+  /** El contrato original (útil para generar docs o mocks). */
+  readonly routes: R;
+}
+
+type SafeFetchInstance = ReturnType<typeof createSafeFetch>;
+
+/**
+ * 🏷️ Schema "solo tipo": no valida nada, solo aporta el tipo `T` al contrato.
+ * @example
+ * "GET /users/:id": { response: typed<User>() }
+ */
+export function typed<T>(): StandardSchemaV1<T, T> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "safe-fetch",
+      validate: (value) => ({ value: value as T }),
+    },
+  };
+}
+
+/**
+ * 📜 **Cliente tipado a partir de un contrato**
+ * Declara las rutas una vez y obtén un cliente donde el método + path, los
+ * parámetros del path, la query, el body y la respuesta se comprueban al compilar.
+ *
+ * @param routes Mapa `"MÉTODO /path"` -> `{ params, query, body, response }`.
+ * @param client Instancia de `createSafeFetch` que hace las peticiones.
+ *
+ * @example
+ * const api = defineApi(
+ *   {
+ *     "GET /users/:id": { query: typed<{ expand?: string }>(), response: UserSchema },
+ *     "POST /users": { body: NewUserSchema, response: UserSchema },
+ *   },
+ *   createSafeFetch({ baseUrl: "https://api.myapp.com" }),
+ * );
+ *
+ * const user = await api.get("/users/:id", { path: { id: 1 } }); // user: User
+ * await api.post("/users", { body: { name: "Ada" } });
+ * await api.get("/users/:uid"); // ❌ Error de compilación
+ */
+export function defineApi<
+  const R extends { [K in keyof R]: RouteSpec } & Record<
+    Exclude<keyof R, RouteKey>,
+    never
+  >,
+>(routes: R, client: SafeFetchInstance): ContractClient<R> {
+  const call =
+    (method: ContractMethod) =>
+    async (
+      path: string,
+      options: Record<string, any> = {},
+    ): Promise<unknown> => {
+      const spec: RouteSpec =
+        (routes as Record<string, RouteSpec>)[`${method} ${path}`] ?? {};
+      const { path: pathValues, query, body, ...init } = options;
+      const info = { url: path, method };
+
+      const values = spec.params
+        ? await validateSchema(
+            spec.params,
+            pathValues,
+            "request",
+            pathValues,
+            info,
+          )
+        : pathValues;
+      const params =
+        spec.query && query !== undefined
+          ? await validateSchema(spec.query, query, "request", query, info)
+          : query;
+
+      // La plantilla (`:id`, `{id}`) la resuelve el núcleo con la opción `path`
+      const url = path;
+      const requestInit: RequestInitExt = {
+        ...init,
+        path: values,
+        params,
+        schema: spec.response,
+        bodySchema: spec.body,
+      };
+
+      switch (method) {
+        case "GET":
+          return client.get(url, requestInit);
+        case "DELETE":
+          return client.delete(url, { ...requestInit, body });
+        case "POST":
+          return client.post(url, body, requestInit);
+        case "PUT":
+          return client.put(url, body, requestInit);
+        case "PATCH":
+          return client.patch(url, body, requestInit);
+      }
+    };
+
+  return {
+    get: call("GET"),
+    post: call("POST"),
+    put: call("PUT"),
+    patch: call("PATCH"),
+    delete: call("DELETE"),
+    routes,
+  } as ContractClient<R>;
+}
@@ -0,0 +1,128 @@
+import { AbortError } from "./errors";
+import type { Middleware, MiddlewareContext } from "./middleware";
+
+/** ⚙️ Configuración de la deduplicación de peticiones en vuelo. */
+export interface DedupeOptions {
+  /**
+   * Headers que forman parte de la clave (además de método + URL final).
+   * Default: `["Authorization", "Accept"]`, para no mezclar respuestas de distintos usuarios.
+   */
+  headers?: string[];
+}
+
+interface InFlight {
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const DEFAULT_DEDUPE_HEADERS = ["Authorization", "Accept"];
+
+/**
+ * Crea el middleware de deduplicación (scope "request").
+ * Las llamadas GET/HEAD idénticas y concurrentes comparten un único `fetch`;
+ * cada llamada recibe su propio clon de la `Response`.
+ *
+ * @param getOptions Devuelve la configuración global vigente.
+ */
+export function createDeduplicator(
+  getOptions: () => boolean | DedupeOptions | undefined,
+): Middleware {
+  const inFlight = new Map<string, InFlight>();
+
+  const getKey = (ctx: MiddlewareContext): string | undefined => {
+    const method = (ctx.init.method ?? "GET").toUpperCase();
+    if (method !== "GET" && method !== "HEAD") return undefined;
+
+    const global = getOptions();
+    const enabled = ctx.init.dedupe ?? !!global;
+    if (!enabled) return undefined;
+
+    const names =
+      (typeof global === "object" && global.headers) || DEFAULT_DEDUPE_HEADERS;
+    const headers = new Headers(
+      Object.entries(ctx.init.headers ?? {}).filter(
+        (entry): entry is [string, string] => entry[1] != null,
+      ),
+    );
+    const selected = names.map((name) => `${name}:${headers.get(name) ?? ""}`);
+
+    return [method, ctx.url, ...selected].join("\n");
+  };
+
+  /**
+   * Espera la respuesta compartida. Si el `signal` de este llamador se aborta,
+   * solo él se retira; el fetch real se cancela cuando se retiran todos.
+   */
+  const join = (
+    entry: InFlight,
+    ctx: MiddlewareContext,
+    signal: AbortSignal | undefined,
+  ): Promise<Response> => {
+    entry.waiters++;
+
+    return new Promise<Response>((resolve, reject) => {
+      let done = false;
+      const leave = () => {
+        done = true;
+        entry.waiters--;
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        if (done) return;
+        leave();
+        if (entry.waiters === 0) entry.controller.abort();
+        reject(
+          new AbortError(ctx.init.signal?.aborted ? "user" : "abortAll", {
+            url: ctx.url,
+            method: ctx.init.method,
+            attempts: 0,
+          }),
+        );
+      };
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      entry.promise.then(
+        (response) => {
+          if (done) return;
+          leave();
+          resolve(response.clone());
+        },
+        (error) => {
+          if (done) return;
+          leave();
+          reject(error);
+        },
+      );
+    });
+  };
+
+  return async (ctx, next) => {
+    const key = getKey(ctx);
+    if (!key) return next();
+
+    const existing = inFlight.get(key);
+    if (existing) return join(existing, ctx, ctx.signal);
+
+    // Primer llamador: lanza el fetch compartido con su propio controller.
+    // Al terminar se restaura su signal: un `next()` posterior (replay de auth,
+    // reintento de un middleware) debe volver a escuchar al usuario y a `abortAll`
+    const callerSignal = ctx.signal;
+    const controller = new AbortController();
+    ctx.signal = controller.signal;
+    const promise = next().finally(() => {
+      ctx.signal = callerSignal;
+    });
+
+    const entry: InFlight = { promise, controller, waiters: 0 };
+    inFlight.set(key, entry);
+    const cleanup = () => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    };
+    entry.promise.then(cleanup, cleanup);
+
+    return join(entry, ctx, callerSignal);
+  };
+}
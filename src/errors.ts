@@ -0,0 +1,302 @@
+/** Datos de contexto que acompañan a todos los errores de SafeFetch. */
+export interface SafeFetchErrorOptions {
+  /** URL final de la petición (con baseUrl y params aplicados). */
+  url?: string;
+  /** Método HTTP utilizado. */
+  method?: string;
+  /** Número de intentos realizados (1 = sin reintentos). */
+  attempts?: number;
+  /** Error original que provocó este error (si existe). */
+  cause?: unknown;
+}
+
+/**
+ * 🧯 **Error base de SafeFetch**
+ * Todos los errores lanzados por la librería heredan de esta clase,
+ * así que un simple `instanceof SafeFetchError` basta para distinguirlos
+ * de errores de tu propia lógica.
+ */
+export class SafeFetchError extends Error {
+  readonly url?: string;
+  readonly method?: string;
+  readonly attempts: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: SafeFetchErrorOptions = {}) {
+    super(message);
+    this.name = "SafeFetchError";
+    this.url = options.url;
+    this.method = options.method;
+    this.attempts = options.attempts ?? 1;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 🚫 **Error HTTP (4xx / 5xx)**
+ * Se lanza cuando el servidor responde con un status no exitoso.
+ * Incluye el body ya parseado (JSON o texto) para que no tengas que volver a leerlo.
+ *
+ * @example
+ * try {
+ *   await api.get("/users/1");
+ * } catch (e) {
+ *   if (e instanceof HttpError && e.status === 404) showNotFound();
+ * }
+ */
+export class HttpError<TBody = unknown> extends SafeFetchError {
+  readonly status: number;
+  readonly statusText: string;
+  /** Body de la respuesta parseado (JSON si es posible, texto en caso contrario). */
+  readonly body: TBody;
+  readonly headers: Headers;
+  /** Respuesta nativa. Su body ya fue consumido. */
+  readonly response: Response;
+
+  constructor(
+    response: Response,
+    body: TBody,
+    options: SafeFetchErrorOptions = {},
+  ) {
+    super(
+      `Request failed with status ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      { ...options, url: response.url || options.url },
+    );
+    this.name = "HttpError";
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.body = body;
+    this.headers = response.headers;
+    this.response = response;
+  }
+}
+
+/** ⏱️ La petición superó el `timeout` configurado. */
+export class TimeoutError extends SafeFetchError {
+  /** Tiempo máximo configurado (ms). */
+  readonly timeout: number;
+
+  constructor(timeout: number, options: SafeFetchErrorOptions = {}) {
+    super(`Request timeout after ${timeout}ms`, options);
+    this.name = "TimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * 🛑 La petición fue cancelada antes de completarse.
+ * - `"user"`: el `signal` que pasaste fue abortado.
+ * - `"abortAll"`: se llamó a `safeFetch.abortAll()`.
+ */
+export class AbortError extends SafeFetchError {
+  readonly reason: "user" | "abortAll";
+
+  constructor(
+    reason: "user" | "abortAll",
+    options: SafeFetchErrorOptions = {},
+  ) {
+    super(
+      reason === "user"
+        ? "Request aborted by user"
+        : "Request aborted by safeFetch.abortAll()",
+      options,
+    );
+    this.name = "AbortError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * 💥 Fallo a nivel de red (sin internet, DNS, CORS, conexión rechazada).
+ * El error nativo de `fetch` queda disponible en `cause`.
+ */
+export class NetworkError extends SafeFetchError {
+  constructor(options: SafeFetchErrorOptions = {}) {
+    const cause = options.cause as { message?: string } | undefined;
+    super(
+      `Network error${cause?.message ? `: ${cause.message}` : ""}`,
+      options,
+    );
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * 🧩 El body de la respuesta no se pudo interpretar en el formato esperado
+ * (ej: JSON malformado). El texto original queda disponible en `body`.
+ */
+export class ParseError extends SafeFetchError {
+  /** Texto crudo recibido del servidor (en streams, solo la línea que falló). */
+  readonly body: string;
+  readonly response?: Response;
+  /** Número de línea (desde 1) en respuestas por líneas como NDJSON. */
+  readonly line?: number;
+
+  constructor(
+    body: string,
+    response?: Response,
+    options: SafeFetchErrorOptions & { line?: number } = {},
+  ) {
+    super(
+      `Failed to parse response body${options.line ? ` at line ${options.line}` : ""}`,
+      options,
+    );
+    this.name = "ParseError";
+    this.body = body;
+    this.response = response;
+    this.line = options.line;
+  }
+}
+
+/** Issue reportado por un validador Standard Schema (zod, valibot, arktype...). */
+export interface ValidationIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * 📐 Los datos no cumplen el `schema` (respuesta) o el `bodySchema` (petición).
+ *
+ * @example
+ * catch (e) {
+ *   if (e instanceof ValidationError) console.table(e.issues);
+ * }
+ */
+export class ValidationError extends SafeFetchError {
+  readonly issues: ReadonlyArray<ValidationIssue>;
+  /** Qué se estaba validando: el body enviado o la respuesta recibida. */
+  readonly target: "request" | "response";
+  /** Body sin validar (texto crudo de la respuesta o body de la petición). */
+  readonly body: unknown;
+
+  constructor(
+    issues: ReadonlyArray<ValidationIssue>,
+    target: "request" | "response",
+    body: unknown,
+    options: SafeFetchErrorOptions = {},
+  ) {
+    const first = issues[0];
+    const path = first?.path
+      ?.map((p) => String(typeof p === "object" ? p.key : p))
+      .join(".");
+    super(
+      `${target === "request" ? "Request body" : "Response"} validation failed${
+        first ? `: ${path ? `${path}: ` : ""}${first.message}` : ""
+      }`,
+      options,
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.target = target;
+    this.body = body;
+  }
+}
+
+/**
+ * ⏳ La petición esperó en la cola de concurrencia más de `queueTimeout` ms
+ * sin llegar a enviarse. No se reintenta.
+ */
+export class QueueTimeoutError extends TimeoutError {
+  constructor(timeout: number, options: SafeFetchErrorOptions = {}) {
+    super(timeout, options);
+    this.name = "QueueTimeoutError";
+    this.message = `Request waited more than ${timeout}ms in the queue`;
+  }
+}
+
+/**
+ * ⚡ El circuit breaker de ese servicio está abierto: la petición falla al
+ * instante, sin llegar a enviarse. No se reintenta.
+ */
+export class CircuitOpenError extends SafeFetchError {
+  /** Clave del circuito (por defecto, el origin). */
+  readonly key: string;
+  /** Momento (ms) a partir del cual se permitirán peticiones de prueba. */
+  readonly retryAt?: number;
+
+  constructor(
+    key: string,
+    retryAt: number | undefined,
+    options: SafeFetchErrorOptions = {},
+  ) {
+    super(`Circuit "${key}" is open, request not sent`, options);
+    this.name = "CircuitOpenError";
+    this.key = key;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * 🪣 El rate limit del cliente no tiene tokens (`strategy: "reject"`) o la espera
+ * superaría `maxWait`. La petición no se envía. No se reintenta.
+ */
+export class RateLimitError extends SafeFetchError {
+  /** Clave del bucket (por defecto, el origin). */
+  readonly key: string;
+  /** Tiempo estimado (ms) hasta que haya un token libre. */
+  readonly retryAfter: number;
+
+  constructor(
+    key: string,
+    retryAfter: number,
+    options: SafeFetchErrorOptions = {},
+  ) {
+    super(`Rate limit exceeded for "${key}", request not sent`, options);
+    this.name = "RateLimitError";
+    this.key = key;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** Un error de la lista `errors` de una respuesta GraphQL. */
+export interface GraphQLErrorEntry {
+  message: string;
+  locations?: { line: number; column: number }[];
+  /** Campo que falló (`["user", "posts", 0, "title"]`). */
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * 🕸️ **Error GraphQL**
+ * La respuesta trae `errors`, aunque el status sea 200.
+ * Incluye los `data` parciales que el servidor sí pudo resolver.
+ *
+ * @example
+ * try {
+ *   await api.graphql(GetUser, { id: 1 });
+ * } catch (e) {
+ *   if (e instanceof GraphQLError) console.log(e.errors[0].path, e.data);
+ * }
+ */
+export class GraphQLError<TData = unknown> extends SafeFetchError {
+  readonly errors: GraphQLErrorEntry[];
+  /** Datos parciales (`null` si la operación no llegó a ejecutarse). */
+  readonly data?: TData | null;
+  readonly extensions?: Record<string, unknown>;
+  readonly operationName?: string;
+  readonly status: number;
+  /** Respuesta nativa. Su body ya fue consumido. */
+  readonly response: Response;
+
+  constructor(
+    errors: GraphQLErrorEntry[],
+    data: TData | null | undefined,
+    extensions: Record<string, unknown> | undefined,
+    response: Response,
+    options: SafeFetchErrorOptions & { operationName?: string } = {},
+  ) {
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : "";
+    super(`GraphQL error: ${errors[0]?.message}${more}`, {
+      ...options,
+      url: response.url || options.url,
+    });
+    this.name = "GraphQLError";
+    this.errors = errors;
+    this.data = data;
+    this.extensions = extensions;
+    this.operationName = options.operationName;
+    this.status = response.status;
+    this.response = response;
+  }
+}
@@ -0,0 +1,301 @@
+import { GraphQLError, HttpError, SafeFetchError } from "./errors";
+import type { GraphQLErrorEntry, SafeFetchErrorOptions } from "./errors";
+import type { RequestInitExt } from "./index";
+
+/** Variables de una operación. */
+export type GraphQLVariables = Record<string, unknown>;
+
+/**
+ * Tipos de resultado y variables de un documento tipado
+ * (`TypedDocumentNode`, `TypedDocumentString` de graphql-codegen...).
+ */
+export interface DocumentTypeDecoration<TData, TVars> {
+  __apiType?: (variables: TVars) => TData;
+}
+
+/** `DocumentNode` de `graphql` / `graphql-tag` (sin depender del paquete). */
+export interface DocumentNodeLike {
+  readonly kind: string;
+  readonly definitions: readonly unknown[];
+  readonly loc?: { readonly source: { readonly body: string } };
+}
+
+/**
+ * Documento admitido por `api.graphql()`: un string o un documento tipado,
+ * del que se infieren los tipos de `data` y de las variables.
+ */
+export type GraphQLDocument<TData = unknown, TVars = GraphQLVariables> =
+  | string
+  | (String & DocumentTypeDecoration<TData, TVars>)
+  | (DocumentNodeLike & DocumentTypeDecoration<TData, TVars>);
+
+/**
+ * 🕸️ **Opciones de GraphQL**
+ * @example
+ * graphql: { endpoint: "/api/graphql", persistedQueries: true }
+ */
+export interface GraphQLOptions {
+  /** Endpoint (relativo a `baseUrl` o absoluto). Default: "/graphql" */
+  endpoint?: string;
+  /**
+   * Automatic Persisted Queries (APQ): se envía primero solo el hash SHA-256 de la
+   * query (por GET si es una query); si el servidor no lo conoce, se reenvía completa.
+   */
+  persistedQueries?: boolean;
+  /** Envía las queries (no las mutations) por GET. Default: false */
+  useGet?: boolean;
+  /**
+   * Convierte un `DocumentNode` sin `loc` en texto.
+   * @example
+   * import { print } from "graphql";
+   * graphql: { print }
+   */
+  print?: (document: any) => string;
+}
+
+/** Opciones de `api.graphql()`: las de cualquier petición + las de GraphQL. */
+export interface GraphQLRequestInit
+  extends
+    Omit<
+      RequestInitExt,
+      | "method"
+      | "body"
+      | "params"
+      | "path"
+      | "responseType"
+      | "schema"
+      | "bodySchema"
+      | "throwHttpErrors"
+    >,
+    GraphQLOptions {
+  /** Operación a ejecutar. Default: la única operación del documento. */
+  operationName?: string;
+}
+
+/** Respuesta GraphQL (`{ data, errors, extensions }`). */
+interface GraphQLEnvelope {
+  data?: unknown;
+  errors?: GraphQLErrorEntry[];
+  extensions?: Record<string, unknown>;
+}
+
+type Run = (
+  url: string,
+  init: RequestInitExt,
+) => Promise<{
+  data: unknown;
+  response: Response;
+  info: SafeFetchErrorOptions;
+}>;
+
+/**
+ * Crea `api.graphql()` sobre el pipeline de la instancia (interceptores,
+ * reintentos, timeouts...).
+ *
+ * @param getOptions Devuelve la configuración global vigente.
+ * @param run Envía la petición y parsea el body sin lanzar por status.
+ */
+export function createGraphQLClient(
+  getOptions: () => GraphQLOptions | undefined,
+  run: Run,
+) {
+  /** Servidores que respondieron `PersistedQueryNotSupported`. */
+  const withoutPersisted = new Set<string>();
+
+  return async <TData = unknown, TVars = GraphQLVariables>(
+    document: GraphQLDocument<TData, TVars>,
+    variables?: TVars,
+    init: GraphQLRequestInit = {},
+  ): Promise<TData> => {
+    const {
+      operationName: operationOption,
+      endpoint: endpointOption,
+      persistedQueries: persistedOption,
+      useGet: useGetOption,
+      print: printOption,
+      ...requestInit
+    } = init;
+    const global = getOptions() ?? {};
+    const endpoint = endpointOption ?? global.endpoint ?? "/graphql";
+    const print = printOption ?? global.print;
+    const useGet = useGetOption ?? global.useGet ?? false;
+    const persisted =
+      (persistedOption ?? global.persistedQueries ?? false) &&
+      !withoutPersisted.has(endpoint);
+
+    const query = printDocument(document, print);
+    const operations = findOperations(query);
+    const operationName =
+      operationOption ??
+      (operations.length === 1 ? operations[0].name : undefined);
+    const type =
+      operations.find((op) => op.name === operationName)?.type ??
+      operations[0]?.type ??
+      "query";
+    const isQuery = type === "query";
+
+    const send = async (
+      payload: { query?: string; extensions?: Record<string, unknown> },
+      get: boolean,
+    ) => {
+      const fields = {
+        ...payload,
+        operationName,
+        variables: variables ?? undefined,
+      };
+      const headers = {
+        Accept: "application/graphql-response+json, application/json",
+        ...requestInit.headers,
+      };
+      const result = get
+        ? await run(endpoint, {
+            ...requestInit,
+            method: "GET",
+            headers,
+            params: {
+              query: fields.query,
+              operationName,
+              variables: fields.variables && JSON.stringify(fields.variables),
+              extensions:
+                fields.extensions && JSON.stringify(fields.extensions),
+            },
+          })
+        : await run(endpoint, {
+            ...requestInit,
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: fields,
+            // Una query no cambia nada: se reintenta aunque vaya por POST (las mutations no)
+            retry: isQuery
+              ? { methods: ["POST"], ...requestInit.retry }
+              : requestInit.retry,
+          });
+      return { ...result, envelope: toEnvelope(result.data) };
+    };
+
+    let result: Awaited<ReturnType<typeof send>>;
+    if (persisted) {
+      const extensions = {
+        persistedQuery: { version: 1, sha256Hash: await sha256(query) },
+      };
+      result = await send({ extensions }, isQuery);
+      const missing = persistedQueryError(result.envelope);
+      if (missing === "unsupported") withoutPersisted.add(endpoint);
+      if (missing) {
+        // Se envía completa para que el servidor registre el hash
+        result = await send(
+          missing === "unsupported" ? { query } : { query, extensions },
+          false,
+        );
+      }
+    } else {
+      result = await send({ query }, useGet && isQuery);
+    }
+
+    const { envelope, response, data, info } = result;
+    if (!envelope) {
+      if (response.status >= 400) throw new HttpError(response, data, info);
+      throw new SafeFetchError(
+        `Invalid GraphQL response from ${info.url ?? endpoint}`,
+        info,
+      );
+    }
+    if (envelope.errors?.length) {
+      throw new GraphQLError(
+        envelope.errors,
+        envelope.data,
+        envelope.extensions,
+        response,
+        { ...info, operationName },
+      );
+    }
+    if (response.status >= 400) throw new HttpError(response, data, info);
+    return envelope.data as TData;
+  };
+}
+
+/** Texto de la query: strings, `TypedDocumentString` o `DocumentNode`. */
+function printDocument(
+  document: GraphQLDocument<unknown, never>,
+  print: ((document: any) => string) | undefined,
+): string {
+  if (typeof document === "string") return document;
+  if (document instanceof String) return document.toString();
+  const body = document.loc?.source.body;
+  if (body) return body;
+  if (print) return print(document);
+  throw new SafeFetchError(
+    "Cannot print a GraphQL document without `loc`, pass `print` from the graphql package",
+  );
+}
+
+/**
+ * Operaciones del documento (`query Name`, `mutation`...).
+ * Solo mira el nivel superior: ni los campos ni las variables cuentan.
+ */
+function findOperations(query: string) {
+  let depth = 0;
+  let header = "";
+  const headers: string[] = [];
+  for (const char of query.replace(/#[^\n\r]*/g, "")) {
+    if (char === "{" && depth === 0) {
+      headers.push(header.trim());
+      header = "";
+    }
+    if (char === "{" || char === "(") depth++;
+    else if (char === "}" || char === ")") depth = Math.max(0, depth - 1);
+    else if (depth === 0) header += char;
+  }
+
+  const operations: { type: string; name?: string }[] = [];
+  for (const text of headers) {
+    // `{ ... }` suelto es una query anónima; los fragmentos no son operaciones
+    if (!text) operations.push({ type: "query" });
+    const match = /^(query|mutation|subscription)\b\s*([_A-Za-z]\w*)?/.exec(
+      text,
+    );
+    if (match) operations.push({ type: match[1], name: match[2] });
+  }
+  return operations;
+}
+
+function toEnvelope(data: unknown): GraphQLEnvelope | undefined {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return undefined;
+  }
+  const envelope = data as GraphQLEnvelope;
+  if (!("data" in envelope) && !Array.isArray(envelope.errors)) {
+    return undefined;
+  }
+  return envelope;
+}
+
+/** `"missing"` si el servidor no conoce el hash, `"unsupported"` si no admite APQ. */
+function persistedQueryError(envelope: GraphQLEnvelope | undefined) {
+  for (const error of envelope?.errors ?? []) {
+    const code = error.extensions?.code;
+    if (
+      error.message === "PersistedQueryNotSupported" ||
+      code === "PERSISTED_QUERY_NOT_SUPPORTED"
+    ) {
+      return "unsupported";
+    }
+    if (
+      error.message === "PersistedQueryNotFound" ||
+      code === "PERSISTED_QUERY_NOT_FOUND"
+    ) {
+      return "missing";
+    }
+  }
+  return undefined;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
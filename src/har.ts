@@ -0,0 +1,532 @@
+import { SafeFetchError } from "./errors";
+import type { Middleware } from "./middleware";
+import type { Transport } from "./mock";
+
+/** Par nombre/valor de HAR (headers, query, cookies). */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/** Entrada HAR 1.2: una petición (un intento) y su respuesta. */
+export interface HarEntry {
+  startedDateTime: string;
+  /** Duración total (ms). */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: {
+      mimeType: string;
+      text?: string;
+      params?: { name: string; value?: string; fileName?: string }[];
+    };
+  };
+  response: {
+    /** 0 si la petición falló sin respuesta (red, timeout, abort). */
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: "base64";
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Intento dentro de la petición (1, 2, 3... con reintentos). */
+  _attempt?: number;
+  /** Mensaje de error si no hubo respuesta. */
+  _error?: string;
+  /** El body se canceló (o falló) antes de terminar: `content` tiene lo recibido hasta entonces. */
+  _truncated?: boolean;
+}
+
+/** Documento HAR 1.2 (se puede abrir en las DevTools del navegador). */
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarRecorderOptions {
+  /**
+   * Headers cuyo valor se sustituye por `"[REDACTED]"` (sin distinguir mayúsculas).
+   * Default: Authorization, Proxy-Authorization, Cookie, Set-Cookie, X-Api-Key
+   */
+  redact?: string[];
+}
+
+/** ⚙️ Cómo se busca una grabación para cada petición en `createHarTransport`. */
+export interface HarReplayOptions {
+  /**
+   * Headers que también deben coincidir.
+   * - false (Default): se ignoran los headers.
+   * - true: todos los grabados (salvo los redactados).
+   * - string[]: solo esos.
+   */
+  matchHeaders?: boolean | string[];
+  /** Ordena los query params antes de comparar (`?b=2&a=1` == `?a=1&b=2`). Default: true */
+  normalizeQuery?: boolean;
+  /** Compara también el body enviado. Default: true */
+  matchBody?: boolean;
+  /**
+   * Qué hacer si no hay grabación para la petición:
+   * - "error" (Default): lanza `SafeFetchError`.
+   * - "record": la hace de verdad y la añade al HAR.
+   */
+  onMissing?: "error" | "record";
+  /** Transporte real para `onMissing: "record"`. Default: `fetch` global */
+  fetch?: Transport;
+  /** Headers a redactar al grabar (ver `HarRecorderOptions.redact`). */
+  redact?: string[];
+}
+
+const DEFAULT_REDACT = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+const REDACTED = "[REDACTED]";
+
+const CREATOR = { name: "@alexfalconflores/safe-fetch", version: "2" };
+
+/** Datos de la petición tal como sale hacia el transporte. */
+interface OutgoingRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: unknown;
+}
+
+/**
+ * 📼 **Grabador HAR**
+ * Middleware de scope "attempt" que registra cada intento (URL final con `params`,
+ * headers después de `onRequest`/`auth`, body, status, tiempos) en formato HAR 1.2.
+ * La entrada se añade cuando el body de la respuesta se termina de leer o se cancela.
+ *
+ * @example
+ * const recorder = createHarRecorder();
+ * api.use(recorder.middleware, { scope: "attempt" });
+ * // ... usar la app ...
+ * fs.writeFileSync("session.har", JSON.stringify(await recorder.toHAR()));
+ */
+export function createHarRecorder(options: HarRecorderOptions = {}) {
+  const entries: HarEntry[] = [];
+  const redact = toRedactList(options.redact);
+
+  const middleware: Middleware = async (ctx, next) => {
+    const startedAt = Date.now();
+    const request: OutgoingRequest = {
+      url: ctx.url,
+      method: (ctx.init.method ?? "GET").toUpperCase(),
+      headers: toNativeHeaders(ctx.init.headers),
+      body: ctx.init.body,
+    };
+    const postData = await readPostData(request.body, request.headers);
+
+    let response: Response;
+    try {
+      response = await next();
+    } catch (error) {
+      const entry = createEntry(request, postData, undefined, null, {
+        startedAt,
+        respondedAt: Date.now(),
+        redact,
+      });
+      entry._attempt = ctx.attempt;
+      entry._error = error instanceof Error ? error.message : String(error);
+      entries.push(entry);
+      throw error;
+    }
+
+    // El body se graba mientras lo lee quien hizo la petición: un stream (SSE,
+    // NDJSON) se registra al terminar o al cancelarse (`break`), sin leerlo aparte
+    const respondedAt = Date.now();
+    return tapResponse(response, (body, truncated) => {
+      const entry = createEntry(request, postData, response, body, {
+        startedAt,
+        respondedAt,
+        redact,
+      });
+      entry._attempt = ctx.attempt;
+      if (truncated) entry._truncated = true;
+      entries.push(entry);
+    });
+  };
+
+  return {
+    middleware,
+    /** Entradas registradas hasta ahora. */
+    entries,
+    /**
+     * Devuelve el HAR con las entradas terminadas. Las respuestas que aún se
+     * están leyendo (streams abiertos) no se esperan: aparecen al terminar.
+     */
+    async toHAR(): Promise<Har> {
+      return toHar(entries);
+    },
+    /** Borra las entradas registradas. */
+    clear() {
+      entries.length = 0;
+    },
+  };
+}
+
+/**
+ * ⏯️ **Replay de HAR**
+ * Transporte que responde con las respuestas grabadas, sin tocar la red.
+ * Si hay varias grabaciones para la misma petición, se sirven en orden
+ * (la última se repite).
+ *
+ * @example
+ * const api = createSafeFetch({
+ *   baseUrl: "https://api.myapp.com",
+ *   fetch: createHarTransport(har, { onMissing: "record" }),
+ * });
+ */
+export function createHarTransport(
+  har: Har,
+  options: HarReplayOptions = {},
+): Transport & { har: Har } {
+  const {
+    normalizeQuery = true,
+    matchBody = true,
+    onMissing = "error",
+  } = options;
+  const redact = toRedactList(options.redact);
+  const served = new Map<HarEntry, number>();
+
+  const urlKey = (url: string) => {
+    if (!normalizeQuery) return url;
+    try {
+      const parsed = new URL(url);
+      parsed.searchParams.sort();
+      return parsed.href;
+    } catch {
+      return url;
+    }
+  };
+
+  const headersMatch = (entry: HarEntry, headers: Headers) => {
+    const { matchHeaders = false } = options;
+    if (!matchHeaders) return true;
+    const names =
+      matchHeaders === true
+        ? entry.request.headers.map((h) => h.name.toLowerCase())
+        : matchHeaders.map((name) => name.toLowerCase());
+    return names.every((name) => {
+      if (redact.includes(name)) return true;
+      const recorded = entry.request.headers.find(
+        (h) => h.name.toLowerCase() === name,
+      );
+      return (recorded?.value ?? null) === headers.get(name);
+    });
+  };
+
+  const transport = async (url: string, init: RequestInit = {}) => {
+    const request: OutgoingRequest = {
+      url,
+      method: (init.method ?? "GET").toUpperCase(),
+      headers: new Headers(init.headers),
+      body: init.body,
+    };
+    const bodyText = matchBody ? (await readPostData(init.body))?.text : "";
+
+    const candidates = har.log.entries.filter(
+      (entry) =>
+        entry.response.status !== 0 &&
+        entry.request.method === request.method &&
+        urlKey(entry.request.url) === urlKey(url) &&
+        (!matchBody ||
+          (entry.request.postData?.text ?? "") === (bodyText ?? "")) &&
+        headersMatch(entry, request.headers),
+    );
+
+    const entry =
+      candidates.find((c) => !served.has(c)) ??
+      candidates[candidates.length - 1];
+    if (entry) {
+      served.set(entry, (served.get(entry) ?? 0) + 1);
+      return fromHarResponse(entry);
+    }
+
+    if (onMissing !== "record") {
+      throw new SafeFetchError(
+        `No HAR entry matches ${request.method} ${url}`,
+        { url, method: request.method },
+      );
+    }
+
+    const startedAt = Date.now();
+    const postData = await readPostData(request.body, request.headers);
+    const response = await (options.fetch ?? fetch)(url, init);
+    const respondedAt = Date.now();
+    return tapResponse(response, (body, truncated) => {
+      const recorded = createEntry(request, postData, response, body, {
+        startedAt,
+        respondedAt,
+        redact,
+      });
+      if (truncated) recorded._truncated = true;
+      har.log.entries.push(recorded);
+      served.set(recorded, 1);
+    });
+  };
+
+  return Object.assign(transport, { har });
+}
+
+function toHar(entries: HarEntry[]): Har {
+  return {
+    log: { version: "1.2", creator: CREATOR, entries: [...entries] },
+  };
+}
+
+/**
+ * Devuelve una copia de la respuesta cuyo body pasa por el grabador.
+ * `onEnd` recibe los bytes leídos cuando el body termina, falla o se cancela.
+ */
+function tapResponse(
+  response: Response,
+  onEnd: (body: Uint8Array | null, truncated: boolean) => void,
+): Response {
+  if (!response.body || [204, 205, 304].includes(response.status)) {
+    onEnd(null, false);
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let ended = false;
+  const end = (truncated: boolean) => {
+    if (ended) return;
+    ended = true;
+    const body = new Uint8Array(
+      chunks.reduce((size, chunk) => size + chunk.byteLength, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    onEnd(body, truncated);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          end(false);
+          controller.close();
+          return;
+        }
+        chunks.push(value);
+        controller.enqueue(value);
+      } catch (error) {
+        end(true);
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      end(true);
+      return reader.cancel(reason);
+    },
+  });
+
+  const tapped = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // `url` y `redirected` no se pueden pasar al constructor
+  Object.defineProperty(tapped, "url", { value: response.url });
+  Object.defineProperty(tapped, "redirected", { value: response.redirected });
+  return tapped;
+}
+
+function createEntry(
+  request: OutgoingRequest,
+  postData: HarEntry["request"]["postData"] | undefined,
+  response: Response | undefined,
+  body: Uint8Array | null,
+  {
+    startedAt,
+    respondedAt,
+    redact,
+  }: { startedAt: number; respondedAt: number; redact: string[] },
+): HarEntry {
+  const wait = respondedAt - startedAt;
+  const receive = Date.now() - respondedAt;
+
+  const mimeType = response?.headers.get("Content-Type") ?? "";
+  const content: HarEntry["response"]["content"] = {
+    size: body?.byteLength ?? 0,
+    mimeType,
+  };
+  if (body && body.byteLength > 0) {
+    if (isTextual(mimeType)) content.text = new TextDecoder().decode(body);
+    else {
+      content.text = toBase64(body);
+      content.encoding = "base64";
+    }
+  }
+
+  let queryString: HarNameValue[] = [];
+  try {
+    queryString = toNameValues(new URL(request.url).searchParams);
+  } catch {}
+
+  return {
+    startedDateTime: new Date(startedAt).toISOString(),
+    time: wait + receive,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: "HTTP/1.1",
+      headers: redactHeaders(toNameValues(request.headers), redact),
+      queryString,
+      cookies: [],
+      headersSize: -1,
+      bodySize: postData?.text?.length ?? (postData ? -1 : 0),
+      ...(postData ? { postData } : {}),
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? "",
+      httpVersion: "HTTP/1.1",
+      headers: response
+        ? redactHeaders(toNameValues(response.headers), redact)
+        : [],
+      cookies: [],
+      content,
+      redirectURL: response?.headers.get("Location") ?? "",
+      headersSize: -1,
+      bodySize: body?.byteLength ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait, receive },
+  };
+}
+
+/** Reconstruye la `Response` grabada. */
+function fromHarResponse(entry: HarEntry): Response {
+  const { status, statusText, headers, content } = entry.response;
+  const finalHeaders = new Headers();
+  for (const { name, value } of headers) {
+    // El body grabado ya está descomprimido
+    if (!["content-encoding", "content-length"].includes(name.toLowerCase()))
+      finalHeaders.append(name, value);
+  }
+
+  let body: BodyInit | null = null;
+  if (content.text !== undefined && ![204, 205, 304].includes(status)) {
+    body =
+      content.encoding === "base64" ? fromBase64(content.text) : content.text;
+  }
+  return new Response(body, { status, statusText, headers: finalHeaders });
+}
+
+async function readPostData(
+  body: unknown,
+  headers?: Headers,
+): Promise<HarEntry["request"]["postData"] | undefined> {
+  if (body == null) return undefined;
+  const mimeType = headers?.get("Content-Type") ?? "";
+
+  if (typeof body === "string") return { mimeType, text: body };
+  if (typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams)
+    return {
+      mimeType: mimeType || "application/x-www-form-urlencoded",
+      text: body.toString(),
+    };
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const params: { name: string; value?: string; fileName?: string }[] = [];
+    body.forEach((value, name) => {
+      if (typeof value === "string") params.push({ name, value });
+      else params.push({ name, fileName: (value as File).name });
+    });
+    return { mimeType: mimeType || "multipart/form-data", params };
+  }
+  if (typeof Blob !== "undefined" && body instanceof Blob)
+    return { mimeType: mimeType || body.type, text: await body.text() };
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body))
+    return {
+      mimeType,
+      text: new TextDecoder().decode(body as ArrayBuffer),
+    };
+  // Streams: no se pueden leer sin consumirlos
+  return { mimeType };
+}
+
+function toRedactList(redact: string[] | undefined): string[] {
+  return (redact ?? DEFAULT_REDACT).map((name) => name.toLowerCase());
+}
+
+function redactHeaders(
+  headers: HarNameValue[],
+  redact: string[],
+): HarNameValue[] {
+  return headers.map(({ name, value }) => ({
+    name,
+    value: redact.includes(name.toLowerCase()) ? REDACTED : value,
+  }));
+}
+
+function toNameValues(source: {
+  forEach(cb: (value: string, name: string) => void): void;
+}): HarNameValue[] {
+  const pairs: HarNameValue[] = [];
+  source.forEach((value, name) => pairs.push({ name, value }));
+  return pairs;
+}
+
+function toNativeHeaders(headers: Record<string, string | undefined> = {}) {
+  const native = new Headers();
+  for (const [name, value] of Object.entries(headers)) {
+    if (value != null) native.set(name, value);
+  }
+  return native;
+}
+
+function isTextual(mimeType: string): boolean {
+  return (
+    mimeType === "" ||
+    mimeType.startsWith("text/") ||
+    /json|xml|javascript|x-www-form-urlencoded|ndjson/.test(mimeType)
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -1,3 +1,153 @@
+import {
+  AbortError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  SafeFetchError,
+  TimeoutError,
+} from "./errors";
+import type { SafeFetchErrorOptions } from "./errors";
+import { planRetry, resolveRetryPolicy, sleep } from "./retry";
+import type { RetryPolicy } from "./retry";
+import { createAuthManager } from "./auth";
+import type { AuthOptions } from "./auth";
+import { createHttpCache } from "./cache";
+import { createCircuitBreaker } from "./circuit";
+import type { CircuitBreakerOptions, CircuitPermit } from "./circuit";
+import { createGraphQLClient } from "./graphql";
+import type { GraphQLOptions } from "./graphql";
+import { createLog } from "./logger";
+import type { LogLevel, Logger, RedactOptions } from "./logger";
+import type { CacheOptions, RequestCacheOptions } from "./cache";
+import { createDeduplicator } from "./dedupe";
+import type { DedupeOptions } from "./dedupe";
+import { runMiddleware } from "./middleware";
+import type { Transport } from "./mock";
+import { createRequestQueue } from "./queue";
+import { createRateLimiter } from "./ratelimit";
+import type { RateLimitOptions } from "./ratelimit";
+import type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareOptions,
+} from "./middleware";
+import { trackDownload, trackUpload } from "./progress";
+import type { ProgressCallback } from "./progress";
+import { paginate } from "./paginate";
+import type { PaginateOptions, Paginator } from "./paginate";
+import { createParserRegistry } from "./parsers";
+import type { ResponseParsers } from "./parsers";
+import { fillPath } from "./path";
+import type { PathValues } from "./path";
+import { appendQuery, mergeParamsSerializers, serializeParams } from "./query";
+import type { ParamsSerializer, QueryParams } from "./query";
+import { validateSchema } from "./schema";
+import { defaultContentType, isNativeBody, serializeBody } from "./serializers";
+import type { BodySerializers } from "./serializers";
+import type { StandardSchemaV1 } from "./schema";
+import { eventStream } from "./sse";
+import type { EventStreamConnection, ServerSentEvent, SSEOptions } from "./sse";
+import { readChunks, readJsonLines, readLines } from "./stream";
+
+export * from "./errors";
+export {
+  DEFAULT_RETRY_METHODS,
+  DEFAULT_RETRY_STATUS_CODES,
+  parseRetryAfter,
+} from "./retry";
+export type { RetryContext, RetryPolicy } from "./retry";
+export type { AuthOptions, AuthScheme } from "./auth";
+export { defineApi, typed } from "./contract";
+export type {
+  ContractCallOptions,
+  ContractClient,
+  ContractMethod,
+  ContractResponse,
+  RouteKey,
+  RouteSpec,
+} from "./contract";
+export { createMemoryCache } from "./cache";
+export type {
+  CircuitBreakerOptions,
+  CircuitOutcome,
+  CircuitRegistry,
+  CircuitSnapshot,
+  CircuitState,
+  CircuitStateChange,
+} from "./circuit";
+export type {
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  RequestCacheOptions,
+} from "./cache";
+export type { DedupeOptions } from "./dedupe";
+export type {
+  DocumentNodeLike,
+  DocumentTypeDecoration,
+  GraphQLDocument,
+  GraphQLOptions,
+  GraphQLRequestInit,
+  GraphQLVariables,
+} from "./graphql";
+export type { LogEvent, LogLevel, Logger, RedactOptions } from "./logger";
+export { createHarRecorder, createHarTransport } from "./har";
+export type {
+  Har,
+  HarEntry,
+  HarNameValue,
+  HarRecorderOptions,
+  HarReplayOptions,
+} from "./har";
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareNext,
+  MiddlewareOptions,
+} from "./middleware";
+export { createMockTransport } from "./mock";
+export type {
+  MockHandler,
+  MockMatcher,
+  MockRequest,
+  MockResponse,
+  MockTransport,
+  MockTransportOptions,
+  Transport,
+} from "./mock";
+export { parseLinkHeader } from "./paginate";
+export type {
+  NextPageRequest,
+  PaginateOptions,
+  PaginationPage,
+  PaginationStrategy,
+  Paginator,
+} from "./paginate";
+export type {
+  ParserRegistry,
+  ResponseParser,
+  ResponseParsers,
+} from "./parsers";
+export type { PathParams, PathValue, PathValues } from "./path";
+export type { ProgressCallback, TransferProgress } from "./progress";
+export type { QueueOptions, QueueStats } from "./queue";
+export type {
+  ArrayFormat,
+  ParamsSerializer,
+  ParamsSerializerOptions,
+  QueryParams,
+  QueryValue,
+} from "./query";
+export type {
+  RateLimitOptions,
+  RateLimitRegistry,
+  RateLimitSnapshot,
+} from "./ratelimit";
+export type { StandardSchemaV1 } from "./schema";
+export { toFormData } from "./serializers";
+export type { BodySerializer, BodySerializers } from "./serializers";
+export type { ServerSentEvent, SSEOptions } from "./sse";
+
 /**
  * ⚙️ **Configuración Global de SafeFetch**
  * Define el comportamiento base, interceptores y manejo de errores
@@ -11,8 +161,61 @@ export interface SafeFetchConfig {
   baseUrl?: string;
   /** Headers globales que se enviarán en cada petición (ej: API Keys publicas). */
   headers?: HeadersType;
-  /** 🐞 Si es true, imprime logs y comandos cURL en la consola al fallar. */
+  /**
+   * 🔍 Cómo se convierten los `params` en query string.
+   * Opciones (`arrayFormat`, `objectFormat`, `serializeDate`, `skipEmptyStrings`, `sort`)
+   * o una función propia. Default: arrays repetidos (`a=1&a=2`) y objetos con corchetes.
+   * @example
+   * paramsSerializer: { arrayFormat: "brackets" } // Rails / PHP: tags[]=a&tags[]=b
+   * paramsSerializer: (params) => qs.stringify(params)
+   */
+  paramsSerializer?: ParamsSerializer;
+  /**
+   * 🐞 Si es true y no hay `logger`, registra todos los eventos (nivel "debug")
+   * en la consola, incluido un cURL (con datos sensibles ocultos) al fallar.
+   */
   debug?: boolean;
+  /**
+   * 📝 **Logger estructurado** (pino, bunyan o cualquier `{ debug, info, warn, error }`).
+   * Recibe `(campos, mensaje)` con `event`: "request:start", "attempt:failed",
+   * "retry:scheduled", "response" o "request:failed". `false` lo desactiva.
+   * @example
+   * logger: pino(), logLevel: "warn"
+   */
+  logger?: Logger | false;
+  /** 📝 Nivel mínimo a registrar. Default: "info" (o "debug" con `debug: true`). */
+  logLevel?: LogLevel;
+  /**
+   * 🙈 Datos que nunca llegan a los logs (se suman a `Authorization`, `Cookie`...).
+   * @example
+   * redact: { headers: ["X-Api-Key"], query: ["token"], body: ["password", "card.number"] }
+   */
+  redact?: RedactOptions;
+  /**
+   * 🔌 **Transporte**
+   * Función que envía la petición. Default: el `fetch` global.
+   * Útil para tests (`createMockTransport()`), `undici`, proxies o runtimes sin `fetch` global.
+   * @example
+   * fetch: createMockTransport().get("/me", { body: { id: 1 } })
+   */
+  fetch?: Transport;
+  /**
+   * 🔄 **Política de Reintentos Global**
+   * Backoff, jitter, `Retry-After` y predicado `shouldRetry` para todas las peticiones.
+   * Por defecto solo se reintentan métodos idempotentes y status transitorios
+   * (408, 425, 429, 500, 502, 503, 504).
+   * @example
+   * retry: { limit: 3, backoff: "exponential", jitter: "full", maxDelay: 10000 }
+   */
+  retry?: RetryPolicy;
+  /**
+   * 🔐 **Autenticación**
+   * Inyecta el token (`getToken`) y, ante un 401 (o `isAuthError`), lo refresca una
+   * sola vez aunque fallen varias peticiones a la vez y las repite con el token nuevo.
+   * @example
+   * auth: { getToken: () => store.token, refreshToken: renewSession, onAuthFailure: logout }
+   */
+  auth?: AuthOptions;
   /**
    * ⚡ **Interceptor de Solicitud (Pre-Request)**
    * Hook asíncrono que se ejecuta ANTES de que la petición salga.
@@ -119,6 +322,78 @@ export interface SafeFetchConfig {
   /** Ejecutado en 505 (HTTP Version Not Supported). */
   on505?: (response: Response) => Promise<void> | void;
 
+  /**
+   * 🗄️ **Caché HTTP**
+   * Guarda las respuestas GET y las reutiliza según su TTL, `Cache-Control`
+   * y ETag / Last-Modified (revalidación condicional con 304).
+   * `true` usa un LRU en memoria; pasa un objeto para configurar TTL, SWR o storage.
+   * @example
+   * cache: { ttl: 60_000, staleWhileRevalidate: 30_000 }
+   */
+  cache?: boolean | CacheOptions;
+  /**
+   * 🔗 **Deduplicación de peticiones en vuelo**
+   * Si varias llamadas GET/HEAD idénticas (método + URL final + headers seleccionados)
+   * coinciden en el tiempo, comparten un único `fetch`. Cada una recibe su propio clon.
+   * @example
+   * dedupe: true // o { headers: ["Authorization", "X-Tenant"] }
+   */
+  dedupe?: boolean | DedupeOptions;
+  /**
+   * ⚡ **Circuit breaker** por origin (o por `key`): si la tasa de fallos supera el umbral,
+   * las peticiones fallan al instante con `CircuitOpenError` hasta que una petición
+   * de prueba vuelva a ir bien. `true` usa los valores por defecto.
+   * @example
+   * circuitBreaker: { failureThreshold: 0.5, minimumRequests: 10, resetTimeout: 30_000 }
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * 🪣 **Rate limit** en el cliente (token bucket por origin o por `key`).
+   * Sin tokens, la petición espera su turno (o falla con `RateLimitError` si
+   * `strategy: "reject"`). Se adapta a `RateLimit-*`, `X-RateLimit-*` y `Retry-After`.
+   * @example
+   * rateLimit: { limit: 10, interval: 1000, burst: 20 }
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * 🕸️ Opciones de `api.graphql()`: endpoint, persisted queries (APQ), GET...
+   * @example
+   * graphql: { endpoint: "/api/graphql", persistedQueries: true }
+   */
+  graphql?: GraphQLOptions;
+  /**
+   * 🧾 Serializadores del body por `Content-Type` (se suman a los de serie:
+   * JSON, form-urlencoded, multipart y NDJSON).
+   * @example
+   * serializers: { "application/yaml": (body) => YAML.stringify(body) }
+   */
+  serializers?: BodySerializers;
+  /**
+   * 🚦 Máximo de peticiones en vuelo para toda la instancia.
+   * Las que excedan el límite esperan en una cola con prioridad (`priority`).
+   */
+  maxConcurrent?: number;
+  /** 🚦 Máximo de peticiones en vuelo por origin (protocolo + host + puerto). */
+  maxConcurrentPerOrigin?: number;
+  /**
+   * 🚫 Si es true (default), `request`, `get`, `post`... lanzan `HttpError`
+   * cuando el servidor responde con status >= 400.
+   * Ponlo en false para recibir el body del error como si fuera exitoso.
+   */
+  throwHttpErrors?: boolean;
+  /**
+   * 🧩 **Modo estricto**: si la respuesta dice ser JSON (`application/json`, `+json`)
+   * pero está malformada, lanza `ParseError` (con el texto en `body`) en vez de
+   * devolver el texto tal cual. Default: false
+   */
+  strictParsing?: boolean;
+  /**
+   * 🧩 Parsers por `Content-Type` para `responseType: "auto"` (se suman a los de serie).
+   * @example
+   * parsers: { "text/csv": async (res) => parseCsv(await res.text()) }
+   */
+  parsers?: ResponseParsers;
+
   /**
    * 💥 **Network Error Handler**
    * Se ejecuta cuando `fetch` falla a nivel de red (Sin internet, DNS fallido, CORS bloqueado).
@@ -128,35 +403,168 @@ export interface SafeFetchConfig {
 }
 
 /** Extensión de RequestInit para soportar tipado fuerte de métodos y headers */
-export interface RequestInitExt extends Omit<RequestInit, "headers" | "body"> {
+export interface RequestInitExt<
+  TSchema extends StandardSchemaV1 = StandardSchemaV1,
+  TUrl extends string = string,
+> extends Omit<RequestInit, "headers" | "body" | "cache" | "priority"> {
   method?: HttpMethod;
   headers?: HeadersType;
   body?: BodyInit | Record<string, any> | any[] | null;
   /**
    * ⏱️ Tiempo máximo de espera en milisegundos.
    * Si la petición tarda más, se abortará y lanzará un error.
+   * Cuenta por intento desde que sale hacia el transporte (no incluye la cola ni el rate limit).
    * @example 5000 (5 segundos)
    */
   timeout?: number;
-  /** 🔄 Número de reintentos en caso de fallo (Red o 5xx). Default: 0 */
+  /** 🔄 Número de reintentos en caso de fallo. Atajo de `retry.limit`. Default: 0 */
   retries?: number;
-  /** ⏳ Tiempo de espera entre reintentos (ms). Default: 1000 */
+  /** ⏳ Tiempo de espera entre reintentos (ms). Atajo de `retry.delay`. Default: 1000 */
   retryDelay?: number;
+  /**
+   * 🔄 Política de reintentos de esta petición.
+   * Se fusiona con `retry` de la configuración global (esta tiene prioridad).
+   */
+  retry?: RetryPolicy;
   /** * 📦 Tipo de respuesta esperada.
-   * - "json" (Default): Intenta parsear JSON.
+   * - "json" (Default): Intenta parsear JSON. Si lo pides explícitamente, un body
+   *   inválido lanza `ParseError` y un body vacío devuelve `null`.
+   * - "auto": Elige el parser según el `Content-Type` de la respuesta (ver `parsers`).
    * - "blob": Para archivos, imágenes, PDFs.
    * - "text": Para HTML, CSV, XML.
    * - "arrayBuffer": Para manipulación binaria raw.
    * - "response": Devuelve el objeto Response nativo sin procesar.
+   * - "sse": Devuelve un `AsyncIterable<ServerSentEvent>` (Server-Sent Events).
+   * - "ndjson": Devuelve un `AsyncIterable<T>` con un valor por línea (JSON Lines).
+   *
+   * En los modos stream, `timeout` pasa a ser el tiempo máximo sin recibir datos.
+   */
+  responseType?:
+    | "json"
+    | "auto"
+    | "text"
+    | "blob"
+    | "arrayBuffer"
+    | "response"
+    | "sse"
+    | "ndjson";
+  /**
+   * 📡 Opciones de `responseType: "sse"`.
+   * @example
+   * sse: { json: true, reconnect: true }
+   */
+  sse?: SSEOptions;
+  /** 🧩 Sobrescribe `strictParsing` de la configuración global para esta petición. */
+  strictParsing?: boolean;
+  /**
+   * 🚫 Sobrescribe `throwHttpErrors` de la configuración global para esta petición.
+   * No aplica a `responseType: "response"`, que siempre devuelve la respuesta tal cual.
+   */
+  throwHttpErrors?: boolean;
+  /**
+   * 🗄️ Caché de la respuesta.
+   * - Objeto: usa la caché de SafeFetch (`{ ttl, key, staleWhileRevalidate }`), aunque
+   *   la instancia no tenga `cache` global.
+   * - `false`: ignora la caché de SafeFetch en esta petición.
+   * - String (`"no-store"`, `"reload"`...): modo de caché nativo de `fetch`.
+   */
+  cache?: RequestCache | RequestCacheOptions | false;
+  /** 🔗 Activa o desactiva la deduplicación para esta petición (sobrescribe la global). */
+  dedupe?: boolean;
+  /** 🔐 Pon `false` para no enviar token ni refrescarlo en esta petición (ej: login). */
+  auth?: boolean;
+  /** ⚡ Activa o desactiva el circuit breaker para esta petición (sobrescribe el global). */
+  circuitBreaker?: boolean;
+  /** 🪣 Pon `false` para saltarte el rate limit del cliente en esta petición. */
+  rateLimit?: boolean;
+  /**
+   * 🚦 Prioridad en la cola de concurrencia (mayor = antes). Default: 0
+   * Los valores nativos `"high"` / `"low"` / `"auto"` se envían a `fetch`
+   * y en la cola equivalen a 1 / -1 / 0.
+   */
+  priority?: number | RequestPriority;
+  /** 🚦 Tiempo máximo (ms) esperando turno en la cola. Si se supera, lanza `QueueTimeoutError`. */
+  queueTimeout?: number;
+  /**
+   * 📐 Schema (zod, valibot, arktype... cualquier Standard Schema) para validar la respuesta.
+   * El tipo de retorno de `get`, `post`, etc. se infiere del schema.
+   * Si la respuesta no cumple, se lanza `ValidationError`.
+   * @example
+   * const user = await api.get("/me", { schema: UserSchema }); // user: z.infer<typeof UserSchema>
+   */
+  schema?: TSchema;
+  /** 📐 Schema para validar el body ANTES de enviarlo. Si falla, la petición no sale. */
+  bodySchema?: StandardSchemaV1;
+  /**
+   * 📤 Progreso de subida (`{ loaded, total, percent, rate }`).
+   * Si el runtime admite streams en peticiones (Chrome con HTTP/2+, Node), se notifica
+   * a medida que se envía el body. Si no (Firefox, Safari, o Chrome contra un servidor
+   * HTTP/1.1, donde se reenvía con el body en memoria), llega un único evento al 100%.
+   */
+  onUploadProgress?: ProgressCallback;
+  /**
+   * 📥 Progreso de descarga (`{ loaded, total, percent, rate }`) mientras se lee el body.
+   * `total` sale de `Content-Length`; es `undefined` si el servidor no lo envía.
+   */
+  onDownloadProgress?: ProgressCallback;
+  /**
+   * 🧩 Valores de los parámetros del path (`/users/:id` o `/users/{id}`).
+   * Se codifican con `encodeURIComponent`; si falta alguno o sobra una clave, se lanza
+   * `SafeFetchError` antes de enviar. Con una URL literal, las claves se infieren de ella.
+   * @example
+   * api.get("/users/:id/posts/{postId}", { path: { id: "a/b", postId: 7 } }) // -> /users/a%2Fb/posts/7
    */
-  responseType?: "json" | "text" | "blob" | "arrayBuffer" | "response";
+  path?: PathValues<TUrl>;
   /** * 🔍 Objeto de Query Params.
    * Se convertirán automáticamente a string (ej: ?page=1&sort=asc)
    */
-  params?: Record<
-    string,
-    string | number | boolean | (string | number | boolean)[] | undefined | null
-  >;
+  params?: QueryParams;
+  /**
+   * 🔍 Formato de `params` para esta petición (se fusiona con el global).
+   * @example
+   * paramsSerializer: { arrayFormat: "comma" }
+   */
+  paramsSerializer?: ParamsSerializer;
+}
+
+/** Opciones de `paginate`: las de la estrategia + las de cualquier GET. */
+export type PaginateInit<T, TUrl extends string = string> = Omit<
+  RequestInitExt<StandardSchemaV1, TUrl>,
+  "method" | "body" | "responseType"
+> &
+  PaginateOptions<T>;
+
+/**
+ * 🛡️ Resultado del modo sin excepciones (`safeFetch.try.*`).
+ * Comprueba `ok` y TypeScript estrecha el tipo de `data` / `error`.
+ */
+export type SafeResult<T> =
+  | { ok: true; data: T; error?: undefined; response: Response }
+  | {
+      ok: false;
+      data?: undefined;
+      error: SafeFetchError;
+      /** Presente si el servidor llegó a responder (HTTP o parse errors). */
+      response?: Response;
+    };
+
+/**
+ * Schema "fantasma" usado como default en los métodos HTTP:
+ * si no pasas `schema`, el tipo de retorno es el genérico `T`.
+ */
+type SchemaFor<T> = StandardSchemaV1<unknown, T>;
+type InferOutput<S extends StandardSchemaV1> = StandardSchemaV1.InferOutput<S>;
+
+/** Resultado interno de una ejecución completa (incluye reintentos). */
+interface SendResult {
+  response: Response;
+  url: string;
+  method: string;
+  attempts: number;
+  /** Signal de la petición (usuario + abortAll). */
+  signal?: AbortSignal;
+  /** Deja de registrar la petición en `abortAll` (solo necesario en modo stream). */
+  release: () => void;
 }
 
 /**
@@ -171,6 +579,8 @@ export interface RequestInitExt extends Omit<RequestInit, "headers" | "body"> {
  */
 export function createSafeFetch(defaultConfig: SafeFetchConfig = {}) {
   const activeControllers = new Set<AbortController>();
+  const requestMiddlewares: Middleware[] = [];
+  const attemptMiddlewares: Middleware[] = [];
 
   let localConfig: SafeFetchConfig = {
     baseUrl: "",
@@ -192,297 +602,859 @@ export function createSafeFetch(defaultConfig: SafeFetchConfig = {}) {
     };
   };
 
+  const httpCache = createHttpCache(() => localConfig.cache);
+  const deduplicate = createDeduplicator(() => localConfig.dedupe);
+  const authManager = createAuthManager(() => localConfig.auth);
+  const log = createLog(() => localConfig);
+  const requestQueue = createRequestQueue(() => localConfig);
+  const circuitBreaker = createCircuitBreaker(() => localConfig.circuitBreaker);
+  const rateLimiter = createRateLimiter(() => localConfig.rateLimit);
+  const responseParsers = createParserRegistry(() => localConfig.parsers);
+
+  /**
+   * Registra un middleware en la instancia.
+   * @returns Función para quitarlo (eject).
+   *
+   * @example
+   * const eject = api.use(async (ctx, next) => {
+   *   ctx.init.headers = { ...ctx.init.headers, "X-Trace-Id": crypto.randomUUID() };
+   *   return next();
+   * });
+   * eject(); // Ya no se ejecuta
+   */
+  const use = (middleware: Middleware, options: MiddlewareOptions = {}) => {
+    const stack =
+      options.scope === "attempt" ? attemptMiddlewares : requestMiddlewares;
+    stack.push(middleware);
+    return () => {
+      const index = stack.indexOf(middleware);
+      if (index !== -1) stack.splice(index, 1);
+    };
+  };
+
+  /**
+   * Adaptador de los hooks clásicos (`onRequest`, `on200`..., `onResponse`)
+   * sobre la cadena de middlewares. Siempre es el primero de la cadena.
+   */
+  const hooksMiddleware: Middleware = async (ctx, next) => {
+    if (localConfig.onRequest) {
+      ctx.init = await localConfig.onRequest(ctx.url, ctx.init);
+    }
+
+    const response = await next();
+
+    // Handlers execution...
+    const statusHandlerName = `on${response.status}` as keyof SafeFetchConfig;
+    const specificHandler = localConfig[statusHandlerName];
+
+    if (typeof specificHandler === "function") {
+      await (specificHandler as Function)(response);
+    }
+
+    if (
+      response.status >= 500 &&
+      localConfig.on500 &&
+      response.status !== 500
+    ) {
+      await localConfig.on500(response);
+    }
+
+    if (localConfig.onResponse) {
+      await localConfig.onResponse(response);
+    }
+
+    return response;
+  };
+
   /**
    * 🧠 **Núcleo de SafeFetch**
    * * Ejecuta la petición HTTP con toda la lógica de seguridad:
    * - Retries (Reintentos automáticos)
    * - Timeouts seguros
    * - Cancelación masiva (AbortAll)
-   * - Interceptores (onRequest, onResponse)
+   * - Middlewares e interceptores (onRequest, onResponse)
    * - Manejo de errores unificado
    * * @param url Ruta relativa o absoluta.
    * @param init Opciones de la petición.
-   * @returns Promesa con la respuesta `Response` nativa (sin parsear).
+   * @param stream Si es true, la petición sigue registrada en `abortAll` hasta llamar a `release`
+   * (el body se lee después, en streaming).
+   * @returns La respuesta nativa junto a los datos de la ejecución (URL final, intentos).
    */
-  const core = async (
+  const send = async (
     url: string,
     init?: RequestInitExt,
-  ): Promise<Response> => {
+    stream = false,
+  ): Promise<SendResult> => {
+    if (init?.path) url = fillPath(url, init.path, init.method);
+
     let finalUrl = url.startsWith("http")
       ? url
       : `${localConfig.baseUrl || ""}${url.startsWith("/") ? url : `/${url}`}`;
 
-    let urlWithParams = finalUrl;
-    if (init?.params) {
-      const urlObj = new URL(
-        finalUrl.startsWith("http") ? finalUrl : `http://dummy${finalUrl}`,
-      );
-      Object.entries(init.params).forEach(([key, value]) => {
-        if (value === undefined || value === null) return;
-        if (Array.isArray(value)) {
-          value.forEach((v) => urlObj.searchParams.append(key, String(v)));
-        } else {
-          urlObj.searchParams.append(key, String(value));
-        }
-      });
-      urlWithParams = finalUrl.startsWith("http")
-        ? urlObj.href
-        : urlObj.pathname + urlObj.search;
-    }
+    // Se añaden a la query que ya tenga la URL
+    const urlWithParams = init?.params
+      ? appendQuery(
+          finalUrl,
+          serializeParams(
+            init.params,
+            mergeParamsSerializers(
+              localConfig.paramsSerializer,
+              init.paramsSerializer,
+            ),
+          ),
+        )
+      : finalUrl;
 
     const requestController = new AbortController();
     activeControllers.add(requestController);
 
-    let finalInit: RequestInitExt = {
-      ...init,
-      headers: mergeHeaders(localConfig.headers, init?.headers),
+    const ctx: MiddlewareContext = {
+      url: urlWithParams,
+      init: {
+        ...init,
+        headers: mergeHeaders(localConfig.headers, init?.headers),
+      },
+      attempt: 0,
+      signal: mergeSignals(init?.signal, requestController.signal),
+      state: {},
     };
+    const requestSignal = ctx.signal;
+    const release = () => activeControllers.delete(requestController);
+    let attempts = 0;
+    let streaming = false;
 
-    if (localConfig.onRequest) {
-      finalInit = await localConfig.onRequest(urlWithParams, finalInit);
+    try {
+      const response = await runMiddleware(
+        [
+          hooksMiddleware,
+          authManager,
+          ...requestMiddlewares,
+          httpCache.middleware,
+          deduplicate,
+        ],
+        ctx,
+        async (ctx) => {
+          const result = await fetchWithRetries(
+            await prepareRequest(ctx),
+            requestController,
+          );
+          attempts += result.attempts;
+          return result.response;
+        },
+      );
+      const { onDownloadProgress } = ctx.init;
+
+      streaming = stream;
+      return {
+        response: onDownloadProgress
+          ? trackDownload(response, onDownloadProgress)
+          : response,
+        url: ctx.url,
+        method: ctx.init.method ?? "GET",
+        attempts,
+        signal: requestSignal,
+        release,
+      };
+    } finally {
+      if (!streaming) release();
     }
+  };
 
-    const {
-      method = "GET",
-      headers,
-      body,
-      timeout,
-      retries = 0,
-      retryDelay = 1000,
-      params,
-      responseType,
-      signal: userSignal,
-      ...props
-    } = finalInit || {};
+  /**
+   * Valida (`bodySchema`) y serializa el body, y ajusta el `Content-Type`.
+   * Es el último paso antes del bucle de reintentos: los middlewares de scope
+   * "attempt" ya ven el body serializado.
+   * @returns Una copia del contexto: el de la petición conserva el body original,
+   * así un middleware que llama a `next()` otra vez (replay de auth) lo reenvía igual.
+   */
+  const prepareRequest = async (
+    ctx: MiddlewareContext,
+  ): Promise<MiddlewareContext> => {
+    const { method = "GET", body, bodySchema } = ctx.init;
+
+    let validBody = body;
+    if (bodySchema && body != null) {
+      validBody = (await validateSchema(bodySchema, body, "request", body, {
+        url: ctx.url,
+        method,
+        attempts: 0,
+      })) as RequestInitExt["body"];
+    }
 
     const methodUpper = method.toUpperCase();
     const hasBody = methodUpper !== "GET" && methodUpper !== "HEAD";
 
-    let newBody = hasBody ? body : undefined;
-    const finalHeaders = headers || ({} as HeadersType);
-    const contentTypeJson: ContentType = "application/json";
-
-    const isFormData =
-      typeof FormData !== "undefined" && body instanceof FormData;
-    const isBlob = typeof Blob !== "undefined" && body instanceof Blob;
-    const isBuffer =
-      typeof ArrayBuffer !== "undefined" && body instanceof ArrayBuffer;
-    const isSearchParams =
-      typeof URLSearchParams !== "undefined" && body instanceof URLSearchParams;
-    const isReadableStream =
-      typeof ReadableStream !== "undefined" && body instanceof ReadableStream;
-
-    if (isFormData) {
-      if (finalHeaders["Content-Type"]) {
+    let newBody = hasBody ? validBody : undefined;
+    const finalHeaders = { ...ctx.init.headers } as HeadersType;
+    // `content-type`, `Content-Type`...: se unifican en uno (gana el último definido)
+    const rawHeaders = finalHeaders as Record<string, string | undefined>;
+    let contentType: string | undefined;
+    for (const key of headerKeys(finalHeaders, "Content-Type")) {
+      contentType = rawHeaders[key] ?? contentType;
+      delete rawHeaders[key];
+    }
+    if (contentType) finalHeaders["Content-Type"] = contentType;
+
+    if (typeof FormData !== "undefined" && validBody instanceof FormData) {
+      // fetch pone el Content-Type con el boundary
+      delete finalHeaders["Content-Type"];
+    } else if (
+      hasBody &&
+      validBody &&
+      typeof validBody === "object" &&
+      !isNativeBody(validBody)
+    ) {
+      const serialized = await serializeBody(
+        validBody,
+        contentType,
+        localConfig.serializers,
+        { url: ctx.url, method },
+      );
+      newBody = serialized.body;
+      if (serialized.contentType) {
+        finalHeaders["Content-Type"] = serialized.contentType;
+      } else {
         delete finalHeaders["Content-Type"];
       }
-    } else if (isBlob || isBuffer || isSearchParams || isReadableStream) {
-      // native handling
-    } else {
-      if (
-        hasBody &&
-        body &&
-        typeof body === "object" &&
-        // Si no se especificó content-type, o si es explicitamente json
-        (!finalHeaders["Content-Type"] ||
-          finalHeaders["Content-Type"] === contentTypeJson)
-      ) {
-        newBody = JSON.stringify(body);
-
-        // Aseguramos el header si no estaba
-        if (!finalHeaders["Content-Type"]) {
-          finalHeaders["Content-Type"] = contentTypeJson;
-        }
-      }
     }
 
     if (!hasBody && finalHeaders["Content-Type"]) {
       delete finalHeaders["Content-Type"];
     }
 
-    let lastError: any;
+    return {
+      ...ctx,
+      init: { ...ctx.init, body: newBody, headers: finalHeaders },
+    };
+  };
+
+  /** Último paso de cada intento: el transporte (con progreso de subida si se pidió). */
+  const nativeFetch = async (ctx: MiddlewareContext): Promise<Response> => {
+    const init: RequestInit = {
+      ...toNativeInit(ctx.init),
+      signal: ctx.signal,
+    };
+    const transport = localConfig.fetch ?? fetch;
+    const { onUploadProgress } = ctx.init;
+    if (!onUploadProgress) return transport(ctx.url, init);
+
+    return trackUpload(init, onUploadProgress, (init) =>
+      transport(ctx.url, init),
+    );
+  };
+
+  /**
+   * Bucle de reintentos. Cada intento pasa por los middlewares de scope "attempt"
+   * antes de llegar a `fetch`.
+   */
+  const fetchWithRetries = async (
+    ctx: MiddlewareContext,
+    requestController: AbortController,
+  ): Promise<{ response: Response; attempts: number }> => {
+    const {
+      method = "GET",
+      timeout,
+      retries,
+      retryDelay,
+      retry,
+      signal: userSignal,
+    } = ctx.init;
+
+    const retryPolicy = resolveRetryPolicy(
+      localConfig.retry,
+      { limit: retries, delay: retryDelay },
+      retry,
+    );
+
+    let lastError: SafeFetchError | undefined;
     let response: Response | undefined;
+    let attempts = 0;
+    const startedAt = Date.now();
+    const logUrl = log.redactUrl(ctx.url);
+
+    if (log.enabled("debug")) {
+      log.log(
+        "debug",
+        "request:start",
+        {
+          method,
+          url: logUrl,
+          headers: log.redactHeaders(ctx.init.headers),
+          body: log.redactBody(ctx.init.body, ctx.init.headers),
+        },
+        `${method} ${logUrl}`,
+      );
+    }
 
-    try {
-      for (let attempt = 0; attempt <= retries; attempt++) {
-        let timeoutController: AbortController | undefined;
-        let timeoutId: ReturnType<typeof setTimeout> | undefined;
-        try {
-          const signalsToMerge: (AbortSignal | undefined | null)[] = [
-            userSignal, // 1. Usuario
-            requestController.signal, // 2. Cancelación Masiva (abortAll)
-          ];
-
-          if (timeout) {
-            timeoutController = new AbortController();
-            timeoutId = setTimeout(() => timeoutController?.abort(), timeout);
-            signalsToMerge.push(timeoutController.signal);
-          }
+    for (let attempt = 0; ; attempt++) {
+      attempts = attempt + 1;
+      let timeoutController: AbortController | undefined;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
-          const effectiveSignal = mergeSignals(...signalsToMerge);
+      const signalsToMerge: (AbortSignal | undefined | null)[] = [
+        ctx.signal, // 1. Usuario + Cancelación Masiva (abortAll)
+      ];
 
-          if (localConfig.debug && attempt === 0) {
-            console.log(`🚀 [SafeFetch] ${method} ${urlWithParams}`);
-          }
+      if (timeout) {
+        timeoutController = new AbortController();
+        signalsToMerge.push(timeoutController.signal);
+      }
 
-          response = await fetch(urlWithParams, {
-            method,
-            headers: toHeaders(headers || ({} as HeadersType)),
-            body: newBody as BodyInit,
-            signal: effectiveSignal,
-            ...props,
-          });
-
-          if (timeoutId) clearTimeout(timeoutId);
-
-          if (response.status < 500) {
-            if (!response.ok && localConfig.onResponseError) {
-              const recoveredResponse = await localConfig.onResponseError(
-                response,
-                attempt,
-              );
-              if (recoveredResponse instanceof Response) {
-                response = recoveredResponse;
-              }
-            }
-            break;
-          } else {
-            if (attempt < retries) {
-              throw new Error(`Server Error ${response.status}`);
+      const attemptCtx: MiddlewareContext = {
+        ...ctx,
+        init: { ...ctx.init, headers: { ...ctx.init.headers } },
+        attempt: attempts,
+        signal: mergeSignals(...signalsToMerge),
+      };
+
+      let permit: CircuitPermit | undefined;
+      // ¿Llegó el intento al transporte? Lo que falla antes no habla del servicio
+      let sent = false;
+      try {
+        // Con el circuito abierto falla aquí mismo, antes de hacer cola
+        permit = circuitBreaker.enter(ctx.url, method, ctx.init.circuitBreaker);
+        // Cada intento (también los reintentos) consume un token del rate limit
+        response = await runMiddleware(
+          [
+            ...attemptMiddlewares,
+            rateLimiter.middleware,
+            requestQueue.middleware,
+          ],
+          attemptCtx,
+          (ctx) => {
+            sent = true;
+            // El timeout cuenta desde que el intento sale: la espera en la cola
+            // y en el rate limit tiene sus propios límites (`queueTimeout`, `maxWait`)
+            if (timeoutController) {
+              timeoutId = setTimeout(() => timeoutController?.abort(), timeout);
             }
-          }
-        } catch (error: any) {
+            return nativeFetch(ctx);
+          },
+        );
+        permit?.done(sent ? { response } : undefined);
+      } catch (error: any) {
+        response = undefined;
+        const errorInfo = {
+          url: ctx.url,
+          method,
+          attempts,
+          cause: error,
+        };
+
+        // Lógica de diagnóstico de error
+        if (error instanceof SafeFetchError) {
           lastError = error;
-          if (timeoutId) clearTimeout(timeoutId);
-
-          if (error.name === "AbortError") {
-            // Lógica de diagnóstico de error
-            if (timeout && timeoutController?.signal.aborted) {
-              lastError = new Error(`Request timeout after ${timeout}ms`);
-            } else if (userSignal?.aborted) {
-              lastError = new Error("Request aborted by user");
-            } else if (requestController.signal.aborted) {
-              lastError = new Error("Request aborted by safeFetch.abortAll()");
-            } else {
-              lastError = error;
-            }
-          }
-
-          if (localConfig.debug) {
-            console.warn(
-              `⚠️ [Attempt ${attempt + 1}/${retries + 1}] Failed: ${lastError.message}`,
-            );
-          }
-
-          if (attempt < retries) {
-            await new Promise((resolve) => setTimeout(resolve, retryDelay));
-            continue;
+        } else if (error?.name === "AbortError") {
+          if (timeout && timeoutController?.signal.aborted) {
+            lastError = new TimeoutError(timeout, errorInfo);
+          } else if (userSignal?.aborted) {
+            lastError = new AbortError("user", errorInfo);
+          } else if (requestController.signal.aborted) {
+            lastError = new AbortError("abortAll", errorInfo);
+          } else {
+            lastError = new NetworkError(errorInfo);
           }
+        } else {
+          lastError = new NetworkError(errorInfo);
         }
-        break;
+        // Ni las cancelaciones ni los errores antes de enviar (cola, rate limit...)
+        // dicen nada de la salud del servicio
+        permit?.done(
+          !sent || lastError instanceof AbortError
+            ? undefined
+            : { error: lastError },
+        );
+
+        log.log(
+          "warn",
+          "attempt:failed",
+          {
+            method,
+            url: logUrl,
+            attempt: attempts,
+            maxAttempts: retryPolicy.limit + 1,
+            error: { name: lastError.name, message: lastError.message },
+          },
+          `Attempt ${attempts}/${retryPolicy.limit + 1} failed: ${lastError.message}`,
+        );
+
+        // Una cancelación explícita no tiene sentido reintentarla
+        const delay =
+          lastError instanceof AbortError
+            ? undefined
+            : await planRetry(retryPolicy, {
+                attempt: attempts,
+                url: ctx.url,
+                method,
+                error: lastError,
+              });
+        if (delay === undefined) break;
+        log.log(
+          "info",
+          "retry:scheduled",
+          { method, url: logUrl, attempt: attempts, delay },
+          `Retrying ${method} ${logUrl} in ${delay}ms`,
+        );
+        await sleep(delay, ctx.signal);
+        continue;
+      } finally {
+        if (timeoutId) clearTimeout(timeoutId);
       }
 
-      if (!response) {
-        if (localConfig.debug) {
-          console.error("❌ [SafeFetch] Request Failed Definitively.");
-          console.error("📋 Copy this cURL to debug:");
-          console.log(
-            generateCurl({
-              url: urlWithParams,
+      if (!response.ok) {
+        const delay = await planRetry(retryPolicy, {
+          attempt: attempts,
+          url: ctx.url,
+          method,
+          response,
+        });
+        if (delay !== undefined) {
+          log.log(
+            "info",
+            "retry:scheduled",
+            {
               method,
-              headers: finalHeaders,
-              body: newBody,
-            }),
+              url: logUrl,
+              attempt: attempts,
+              status: response.status,
+              delay,
+            },
+            `Status ${response.status}, retrying ${method} ${logUrl} in ${delay}ms`,
           );
+          // Liberamos la conexión de la respuesta descartada
+          response.body?.cancel().catch(() => {});
+          await sleep(delay, ctx.signal);
+          continue;
         }
+      }
 
-        if (localConfig.onError) localConfig.onError(lastError);
-        throw lastError; // Lanzamos el último error capturado
+      if (response.status < 500) {
+        if (!response.ok && localConfig.onResponseError) {
+          const recoveredResponse = await localConfig.onResponseError(
+            response,
+            attempt,
+          );
+          if (recoveredResponse instanceof Response) {
+            response = recoveredResponse;
+          }
+        }
       }
+      break;
+    }
 
-      // Handlers execution...
-      const statusHandlerName = `on${response.status}` as keyof SafeFetchConfig;
-      const specificHandler = localConfig[statusHandlerName];
+    const duration = Date.now() - startedAt;
+
+    if (!response) {
+      log.log(
+        "error",
+        "request:failed",
+        {
+          method,
+          url: logUrl,
+          attempts,
+          duration,
+          error: { name: lastError?.name, message: lastError?.message },
+          // cURL listo para copiar, con los datos sensibles ocultos
+          curl: generateCurl({
+            url: logUrl,
+            method,
+            headers: log.redactHeaders(ctx.init.headers),
+            body: log.redactBody(ctx.init.body, ctx.init.headers),
+          }),
+        },
+        `${method} ${logUrl} failed after ${attempts} attempt(s): ${lastError?.message}`,
+      );
 
-      if (typeof specificHandler === "function") {
-        await (specificHandler as Function)(response);
-      }
+      if (localConfig.onError) localConfig.onError(lastError);
+      throw lastError; // Lanzamos el último error capturado
+    }
 
-      if (
-        response.status >= 500 &&
-        localConfig.on500 &&
-        response.status !== 500
-      ) {
-        await localConfig.on500(response);
-      }
+    log.log(
+      response.status >= 500 ? "warn" : "info",
+      "response",
+      { method, url: logUrl, status: response.status, attempts, duration },
+      `${method} ${logUrl} ${response.status} (${duration}ms)`,
+    );
+
+    return { response, attempts };
+  };
+
+  /**
+   * Ejecuta la petición y devuelve la `Response` nativa sin parsear.
+   * No lanza errores por status 4xx/5xx, solo por fallos de red, timeout o cancelación.
+   */
+  const core = async (url: string, init?: RequestInitExt): Promise<Response> =>
+    (await send(url, init)).response;
+
+  /**
+   * Ejecuta la petición, parsea el body según `responseType` y lo valida con `schema`.
+   * Devuelve también la `Response` nativa (la necesita el modo `try`).
+   */
+  const execute = async <T>(
+    url: string,
+    init: RequestInitExt,
+  ): Promise<{ data: T; response: Response }> => {
+    const type = init?.responseType || "json";
+    if (type === "sse") return openEventStream<T>(url, init);
+    if (type === "ndjson") return openNdjsonStream<T>(url, init);
+
+    const { response, signal, release, ...info } = await send(url, init);
+
+    if (type === "response") return { data: response as T, response };
 
-      if (localConfig.onResponse) {
-        await localConfig.onResponse(response);
+    const throwHttpErrors =
+      init?.throwHttpErrors ?? localConfig.throwHttpErrors ?? true;
+    if (throwHttpErrors && response.status >= 400) {
+      throw new HttpError(response, await readBody(response), info);
+    }
+
+    const { data, raw } = await parseBody(response, init, info);
+    if (!init?.schema) return { data: data as T, response };
+
+    const valid = await validateSchema(
+      init.schema,
+      data,
+      "response",
+      raw,
+      info,
+    );
+    return { data: valid as T, response };
+  };
+
+  /**
+   * Envía la petición en modo stream: comprueba el status y devuelve el body en chunks.
+   * La petición sigue activa (y cancelable con `abortAll`) hasta que el body termina
+   * o el consumidor sale del `for await`.
+   */
+  const openStream = async (url: string, init: RequestInitExt) => {
+    const { response, signal, release, ...info } = await send(url, init, true);
+
+    const throwHttpErrors =
+      init.throwHttpErrors ?? localConfig.throwHttpErrors ?? true;
+    if (throwHttpErrors && response.status >= 400) {
+      release();
+      throw new HttpError(response, await readBody(response), info);
+    }
+    // Sin body (ej: 204) no hay nada que leer
+    if (!response.body) release();
+
+    const chunks = readChunks(response, {
+      signal,
+      userSignal: init.signal,
+      timeout: init.timeout,
+      info,
+      onClose: release,
+    });
+    return { response, info, chunks };
+  };
+
+  /** Parsea como JSON (si `json`) y valida con `schema` un elemento de un stream. */
+  const parseStreamItem = async (
+    text: string,
+    json: boolean | undefined,
+    init: RequestInitExt,
+    response: Response,
+    info: SafeFetchErrorOptions & { line?: number },
+  ): Promise<unknown> => {
+    let value: unknown = text;
+    if (json) {
+      try {
+        value = JSON.parse(text);
+      } catch (error) {
+        throw new ParseError(text, response, { ...info, cause: error });
       }
+    }
+    if (!init.schema) return value;
+    return validateSchema(init.schema, value, "response", text, info);
+  };
 
-      return response;
-    } finally {
-      activeControllers.delete(requestController);
+  /** Abre un stream Server-Sent Events (con reconexión opcional). */
+  const openEventStream = async <T>(
+    url: string,
+    init: RequestInitExt,
+  ): Promise<{ data: T; response: Response }> => {
+    const { json, ...options } = init.sse ?? {};
+    const headers: HeadersType = {
+      Accept: "text/event-stream",
+      ...init.headers,
+    };
+
+    const connect = async (
+      lastEventId: string,
+    ): Promise<EventStreamConnection> => {
+      const { response, info, chunks } = await openStream(url, {
+        ...init,
+        headers: lastEventId
+          ? { ...headers, "Last-Event-ID": lastEventId }
+          : headers,
+      });
+      const parse = (data: string) =>
+        parseStreamItem(data, json, init, response, info);
+      return { response, chunks, parse };
+    };
+
+    // Vive lo que dure el stream: `abortAll` corta también la espera entre reconexiones
+    const streamController = new AbortController();
+    activeControllers.add(streamController);
+    const close = () => activeControllers.delete(streamController);
+
+    let first: EventStreamConnection;
+    try {
+      first = await connect("");
+    } catch (error) {
+      close();
+      throw error;
     }
+    const events = eventStream(first, connect, {
+      ...options,
+      signal: mergeSignals(init.signal, streamController.signal),
+      onClose: close,
+    });
+    return { data: events as T, response: first.response };
+  };
+
+  /** Abre un stream NDJSON: un valor JSON por línea, parseado a medida que llega. */
+  const openNdjsonStream = async <T>(
+    url: string,
+    init: RequestInitExt,
+  ): Promise<{ data: T; response: Response }> => {
+    const { response, info, chunks } = await openStream(url, {
+      ...init,
+      headers: { Accept: "application/x-ndjson", ...init.headers },
+    });
+    const items = readJsonLines(readLines(chunks), (text, line) =>
+      parseStreamItem(text, true, init, response, { ...info, line }),
+    );
+    return { data: items as T, response };
   };
 
   /**
-   * Helper genérico para realizar peticiones y parsear la respuesta automáticamente.
-   * @template T Tipo de dato esperado en la respuesta.
+   * Lee el body según `responseType`.
+   * @returns El valor parseado y el body crudo (para errores de validación).
    */
-  const request = async <T>(url: string, init: RequestInitExt): Promise<T> => {
-    const response = await core(url, init);
+  const parseBody = async (
+    response: Response,
+    init: RequestInitExt,
+    info: SafeFetchErrorOptions,
+  ): Promise<{ data: unknown; raw: unknown }> => {
     const type = init?.responseType || "json";
+    const same = (data: unknown) => ({ data, raw: data });
 
-    if (type === "response") return response as unknown as T;
-    if (type === "blob") return (await response.blob()) as unknown as T;
-    if (type === "arrayBuffer")
-      return (await response.arrayBuffer()) as unknown as T;
-    if (type === "text") return (await response.text()) as unknown as T;
+    if (type === "blob") return same(await response.blob());
+    if (type === "arrayBuffer") return same(await response.arrayBuffer());
+    if (type === "text") return same(await response.text());
 
     // 204 No Content -> Retornamos objeto vacío o null
-    if (response.status === 204) return {} as T;
+    if (response.status === 204) return same({});
+
+    const strict = init?.strictParsing ?? localConfig.strictParsing ?? false;
+    if (type === "auto") {
+      const accept = getHeader(
+        mergeHeaders(localConfig.headers, init?.headers),
+        "Accept",
+      );
+      return responseParsers.parse(response, accept, strict, info);
+    }
 
     const text = await response.text();
+    // JSON explícito sin body (p. ej. un 200 vacío): no hay nada que parsear
+    if (!text && init?.responseType === "json")
+      return { data: null, raw: text };
 
     try {
-      return JSON.parse(text) as T;
-    } catch {
-      return text as unknown as T;
+      return { data: JSON.parse(text), raw: text };
+    } catch (error) {
+      // Si se pidió JSON explícitamente (o el servidor dice que lo es en modo estricto),
+      // un body inválido es un error real
+      const declaredJson = /[/+]json\b/i.test(
+        response.headers.get("Content-Type") ?? "",
+      );
+      if (init?.responseType === "json" || (strict && text && declaredJson)) {
+        throw new ParseError(text, response, { ...info, cause: error });
+      }
+      return same(text);
+    }
+  };
+
+  /** Envía y parsea el body sin lanzar por status: `graphql` decide qué es un error. */
+  const graphql = createGraphQLClient(
+    () => localConfig.graphql,
+    async (url, init) => {
+      const { response, signal, release, ...info } = await send(url, init);
+      const { data } = await parseBody(response, init, info);
+      return { data, response, info };
+    },
+  );
+
+  /**
+   * Helper genérico para realizar peticiones y parsear la respuesta automáticamente.
+   * @template T Tipo de dato esperado en la respuesta.
+   */
+  const request = async <T>(url: string, init: RequestInitExt): Promise<T> =>
+    (await execute<T>(url, init)).data;
+
+  /**
+   * Igual que `request`, pero nunca lanza: devuelve un `SafeResult<T>`.
+   * Cualquier error que no sea de SafeFetch se envuelve en `SafeFetchError`.
+   */
+  const settle = async <T>(
+    url: string,
+    init: RequestInitExt,
+  ): Promise<SafeResult<T>> => {
+    try {
+      const { data, response } = await execute<T>(url, init);
+      return { ok: true, data, response };
+    } catch (error) {
+      const safeError =
+        error instanceof SafeFetchError
+          ? error
+          : new SafeFetchError(
+              error instanceof Error ? error.message : String(error),
+              { url, method: init.method, cause: error },
+            );
+      const response = (safeError as { response?: Response }).response;
+      return { ok: false, error: safeError, response };
     }
   };
 
+  /** Opciones de las peticiones con body (POST, PUT, PATCH). */
+  const withBody = (
+    method: HttpMethod,
+    body: any,
+    init?: RequestInitExt,
+  ): RequestInitExt => {
+    // FormData, Blob u objetos con ficheros: el Content-Type se decide al serializar
+    const contentType = defaultContentType(body);
+    const hasContentType = headerKeys(init?.headers, "Content-Type").length > 0;
+    return {
+      ...init,
+      method,
+      body,
+      headers:
+        contentType && !hasContentType
+          ? { "Content-Type": contentType, ...init?.headers }
+          : { ...init?.headers },
+    };
+  };
+
   const httpMethods = {
     /** Realiza una petición GET */
-    get: <T>(url: string, init?: RequestInitExt) =>
-      request<T>(url, { ...init, method: "GET" }),
+    get: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) => request<InferOutput<S>>(url, { ...init, method: "GET" }),
     /** Realiza una petición POST enviando datos JSON */
-    post: <T>(url: string, body?: any, init?: RequestInitExt) =>
-      request<T>(url, {
-        ...init,
-        method: "POST",
-        body,
-        headers: { "Content-Type": "application/json", ...init?.headers },
-      }),
+    post: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => request<InferOutput<S>>(url, withBody("POST", body, init)),
     /** Realiza una petición PUT */
-    put: <T>(url: string, body?: any, init?: RequestInitExt) =>
-      request<T>(url, {
+    put: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => request<InferOutput<S>>(url, withBody("PUT", body, init)),
+    /** Realiza una petición PATCH */
+    patch: <
+      T,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => request<InferOutput<S>>(url, withBody("PATCH", body, init)),
+    /** Realiza una petición DELETE */
+    delete: <
+      T,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) => request<InferOutput<S>>(url, { ...init, method: "DELETE" }),
+    /**
+     * 📡 Abre un stream Server-Sent Events (GET por defecto; usa `init.method` para POST).
+     * @example
+     * const events = await api.sse<Token>("/chat", { sse: { json: true } });
+     * for await (const { data } of events) render(data.text);
+     */
+    sse: <
+      T = string,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) =>
+      request<AsyncIterable<ServerSentEvent<InferOutput<S>>>>(url, {
+        method: "GET",
         ...init,
-        method: "PUT",
-        body,
-        headers: { "Content-Type": "application/json", ...init?.headers },
+        responseType: "sse",
       }),
-    /** Realiza una petición PATCH */
-    patch: <T>(url: string, body?: any, init?: RequestInitExt) =>
-      request<T>(url, {
+    /**
+     * 📜 Lee una respuesta NDJSON / JSON Lines línea a línea, sin cargarla entera en memoria.
+     * @example
+     * for await (const row of await api.ndjson<LogRow>("/logs/export")) save(row);
+     */
+    ndjson: <
+      T,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) =>
+      request<AsyncIterable<InferOutput<S>>>(url, {
+        method: "GET",
         ...init,
-        method: "PATCH",
-        body,
-        headers: { "Content-Type": "application/json", ...init?.headers },
+        responseType: "ndjson",
       }),
-    /** Realiza una petición DELETE */
-    delete: <T>(url: string, init?: RequestInitExt) =>
-      request<T>(url, { ...init, method: "DELETE" }),
+  };
+
+  /**
+   * 🛡️ **Modo sin excepciones**
+   * Mismos métodos que `get`, `post`, etc., pero nunca lanzan:
+   * resuelven a `{ ok: true, data, response }` o `{ ok: false, error, response? }`.
+   *
+   * @example
+   * const result = await api.try.get<User>("/me");
+   * if (!result.ok) return showError(result.error);
+   * console.log(result.data.name);
+   */
+  const tryMethods = {
+    get: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) => settle<InferOutput<S>>(url, { ...init, method: "GET" }),
+    post: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => settle<InferOutput<S>>(url, withBody("POST", body, init)),
+    put: <T, S extends SchemaFor<T> = SchemaFor<T>, U extends string = string>(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => settle<InferOutput<S>>(url, withBody("PUT", body, init)),
+    patch: <
+      T,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      body?: any,
+      init?: RequestInitExt<S, U>,
+    ) => settle<InferOutput<S>>(url, withBody("PATCH", body, init)),
+    delete: <
+      T,
+      S extends SchemaFor<T> = SchemaFor<T>,
+      U extends string = string,
+    >(
+      url: U,
+      init?: RequestInitExt<S, U>,
+    ) => settle<InferOutput<S>>(url, { ...init, method: "DELETE" }),
   };
 
   /**
@@ -499,7 +1471,37 @@ export function createSafeFetch(defaultConfig: SafeFetchConfig = {}) {
     configure,
     create: configure, // Alias por si prefieres 'create' para configurar
     abortAll,
+    use,
+    /** 🗄️ Control de la caché HTTP (`invalidate("/users/*")`, `clear()`). */
+    cache: { invalidate: httpCache.invalidate, clear: httpCache.clear },
+    /** 🚦 Estado de la cola de concurrencia (`size`, `pending`, `onIdle()`). */
+    queue: requestQueue.stats,
+    /** ⚡ Estado de los circuit breakers (`get(origin)`, `keys()`, `reset()`). */
+    circuits: circuitBreaker.registry,
+    /**
+     * 📚 Recorre una lista paginada (Link, cursor, offset o page) con `for await`.
+     * Cada página pasa por el pipeline completo (reintentos, interceptores, caché...).
+     * @example
+     * for await (const repo of api.paginate<Repo>("/user/repos")) console.log(repo.name);
+     * const users = await api.paginate<User>("/users", { strategy: { type: "page" } }).toArray({ limit: 100 });
+     */
+    paginate: <T, U extends string = string>(
+      url: U,
+      init?: PaginateInit<T, U>,
+    ): Paginator<T> => paginate<T>(url, { ...init }, execute),
+    /** 🪣 Estado de los buckets del rate limit (`get(origin)`, `keys()`). */
+    rateLimits: rateLimiter.registry,
+    /** 🧩 Parsers de `responseType: "auto"` (`register("text/csv", fn)`, `unregister`, `get`). */
+    parsers: responseParsers.registry,
+    /**
+     * 🕸️ Ejecuta una operación GraphQL y devuelve su `data`.
+     * Si la respuesta trae `errors` (aunque sea un 200), lanza `GraphQLError`.
+     * @example
+     * const { user } = await api.graphql(GetUserDocument, { id: "1" }); // tipado por codegen
+     */
+    graphql,
     ...httpMethods,
+    try: tryMethods,
   });
 }
 
@@ -610,6 +1612,63 @@ export const toHeaders = (headers: HeadersType | Headers): Headers => {
   return new Headers(cleanHeaders);
 };
 
+/**
+ * Quita las opciones propias de SafeFetch y deja un `RequestInit` nativo.
+ */
+function toNativeInit(init: RequestInitExt): RequestInit {
+  const {
+    headers,
+    body,
+    timeout,
+    retries,
+    retryDelay,
+    retry,
+    params,
+    paramsSerializer,
+    path,
+    responseType,
+    throwHttpErrors,
+    schema,
+    bodySchema,
+    signal,
+    cache,
+    dedupe,
+    auth,
+    circuitBreaker,
+    rateLimit,
+    priority,
+    queueTimeout,
+    sse,
+    strictParsing,
+    onUploadProgress,
+    onDownloadProgress,
+    ...props
+  } = init;
+
+  return {
+    ...props,
+    // Solo los modos nativos (string) llegan a fetch
+    ...(typeof cache === "string" ? { cache } : {}),
+    ...(typeof priority === "string" ? { priority } : {}),
+    headers: toHeaders(headers || ({} as HeadersType)),
+    body: body as BodyInit,
+  };
+}
+
+/**
+ * Lee el body de una respuesta: JSON si es posible, texto en caso contrario.
+ * Devuelve `undefined` si el body está vacío.
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text().catch(() => "");
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
 function mergeHeaders(
   global: HeadersType | undefined,
   local: HeadersType | undefined,
@@ -619,6 +1678,26 @@ function mergeHeaders(
     ...((local as Record<string, string>) || {}),
   };
 }
+
+/** Claves de `headers` que corresponden a `name` (sin distinguir mayúsculas). */
+function headerKeys(headers: HeadersType | undefined, name: string): string[] {
+  const lower = name.toLowerCase();
+  return Object.keys(headers ?? {}).filter(
+    (key) => key.toLowerCase() === lower,
+  );
+}
+
+/** Valor de un header sin distinguir mayúsculas (si está repetido, el último). */
+function getHeader(
+  headers: HeadersType | undefined,
+  name: string,
+): string | undefined {
+  const values = headers as Record<string, string | undefined> | undefined;
+  return headerKeys(headers, name)
+    .map((key) => values?.[key])
+    .filter(Boolean)
+    .at(-1);
+}
 // ============================================================================
 // 📦 TIPADO ESTRICTO DE HTTP
 // ============================================================================
@@ -0,0 +1,190 @@
+/** Niveles de log, de más a menos detallado. "silent" desactiva el log. */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * 📝 **Logger**
+ * Interfaz estilo pino / bunyan: `logger.info(campos, mensaje)`.
+ * pino se pasa directamente; para winston u otros basta un adaptador de una línea.
+ */
+export interface Logger {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+}
+
+/** 🙈 Qué ocultar en los logs. Se suma a los defaults (Authorization, Cookie...). */
+export interface RedactOptions {
+  /** Headers (sin distinguir mayúsculas). */
+  headers?: string[];
+  /** Query params de la URL. */
+  query?: string[];
+  /**
+   * Rutas dentro de bodies JSON o form-urlencoded (`"password"`, `"user.token"`,
+   * `"items.*.secret"`). En form-urlencoded, `user.token` es la clave `user[token]`.
+   */
+  body?: string[];
+}
+
+/** Eventos que emite SafeFetch. */
+export type LogEvent =
+  | "request:start"
+  | "attempt:failed"
+  | "retry:scheduled"
+  | "response"
+  | "request:failed";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+];
+
+const REDACTED = "[REDACTED]";
+/** Bodies que no se pueden redactar (texto libre, multipart, binarios...). */
+const OMITTED = "[body omitted]";
+
+/** Logger por defecto con `debug: true`: escribe en la consola. */
+export const consoleLogger: Logger = {
+  debug: (fields, message) => console.debug(`[SafeFetch] ${message}`, fields),
+  info: (fields, message) => console.info(`[SafeFetch] ${message}`, fields),
+  warn: (fields, message) => console.warn(`[SafeFetch] ${message}`, fields),
+  error: (fields, message) => console.error(`[SafeFetch] ${message}`, fields),
+};
+
+interface LogConfig {
+  logger?: Logger | false;
+  logLevel?: LogLevel;
+  debug?: boolean;
+  redact?: RedactOptions;
+}
+
+/**
+ * Crea el logger de una instancia a partir de su configuración vigente.
+ * Sin `logger` ni `debug: true` no se registra nada.
+ */
+export function createLog(getConfig: () => LogConfig) {
+  const resolve = () => {
+    const { logger, logLevel, debug } = getConfig();
+    if (logger === false) return undefined;
+    const target = logger ?? (debug ? consoleLogger : undefined);
+    if (!target) return undefined;
+    return { target, level: logLevel ?? (debug ? "debug" : "info") };
+  };
+
+  /** true si el nivel se va a registrar (para no preparar campos caros en vano). */
+  const enabled = (level: Exclude<LogLevel, "silent">) => {
+    const active = resolve();
+    return !!active && LEVELS[level] >= LEVELS[active.level];
+  };
+
+  const log = (
+    level: Exclude<LogLevel, "silent">,
+    event: LogEvent,
+    fields: Record<string, unknown>,
+    message: string,
+  ) => {
+    const active = resolve();
+    if (!active || LEVELS[level] < LEVELS[active.level]) return;
+    active.target[level]({ event, ...fields }, message);
+  };
+
+  const redactHeaders = (headers: Record<string, string | undefined> = {}) => {
+    const names = [
+      ...DEFAULT_REDACTED_HEADERS,
+      ...(getConfig().redact?.headers ?? []).map((h) => h.toLowerCase()),
+    ];
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value == null) continue;
+      result[name] = names.includes(name.toLowerCase()) ? REDACTED : value;
+    }
+    return result;
+  };
+
+  const redactUrl = (url: string) => {
+    const names = getConfig().redact?.query;
+    if (!names?.length || !url.includes("?")) return url;
+    const [base, query] = url.split("?", 2);
+    const params = new URLSearchParams(query);
+    names.forEach((name) => {
+      if (params.has(name)) params.set(name, REDACTED);
+    });
+    return `${base}?${params.toString().replace(/%5BREDACTED%5D/g, REDACTED)}`;
+  };
+
+  /**
+   * Devuelve el body listo para loguear: JSON o form-urlencoded con rutas ocultas.
+   * Lo que no se puede interpretar no se loguea: podría llevar secretos.
+   */
+  const redactBody = (
+    body: unknown,
+    headers: Record<string, string | undefined> = {},
+  ): unknown => {
+    if (body == null) return undefined;
+    const paths = getConfig().redact?.body ?? [];
+    if (
+      typeof URLSearchParams !== "undefined" &&
+      body instanceof URLSearchParams
+    ) {
+      return redactForm(body, paths);
+    }
+    if (typeof body !== "string") return OMITTED;
+
+    const contentType = Object.entries(headers).find(
+      ([name]) => name.toLowerCase() === "content-type",
+    )?.[1];
+    const mediaType = contentType?.split(";")[0].trim().toLowerCase();
+    if (mediaType === "application/x-www-form-urlencoded") {
+      return redactForm(new URLSearchParams(body), paths);
+    }
+    try {
+      const data = JSON.parse(body);
+      if (!paths.length) return body;
+      paths.forEach((path) => redactPath(data, path.split(".")));
+      return JSON.stringify(data);
+    } catch {
+      return OMITTED;
+    }
+  };
+
+  return { log, enabled, redactHeaders, redactUrl, redactBody };
+}
+
+/** Oculta las claves de un form (`user[token]`, `items[0][secret]`) que coinciden con las rutas. */
+function redactForm(form: URLSearchParams, paths: string[]): string {
+  const patterns = paths.map((path) => path.split("."));
+  const params = new URLSearchParams();
+  form.forEach((value, key) => {
+    const segments = key.split(/[[\].]+/).filter(Boolean);
+    const hidden = patterns.some(
+      (pattern) =>
+        pattern.length === segments.length &&
+        pattern.every((part, i) => part === "*" || part === segments[i]),
+    );
+    params.append(key, hidden ? REDACTED : value);
+  });
+  return params.toString().replace(/%5BREDACTED%5D/g, REDACTED);
+}
+
+function redactPath(target: unknown, path: string[]) {
+  if (target === null || typeof target !== "object") return;
+  const [key, ...rest] = path;
+  const record = target as Record<string, unknown>;
+  const keys = key === "*" ? Object.keys(record) : [key];
+
+  for (const k of keys) {
+    if (!(k in record)) continue;
+    if (rest.length === 0) record[k] = REDACTED;
+    else redactPath(record[k], rest);
+  }
+}
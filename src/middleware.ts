@@ -0,0 +1,74 @@
+import type { RequestInitExt } from "./index";
+
+/**
+ * 🧅 **Contexto de Middleware**
+ * Estado mutable de una petición que viaja por toda la cadena de middlewares.
+ */
+export interface MiddlewareContext {
+  /** URL final (baseUrl + params). Se puede reescribir. */
+  url: string;
+  /**
+   * Opciones de la petición. Se pueden modificar (headers, body, etc).
+   * En scope "attempt" el body ya está serializado y los headers son los definitivos.
+   */
+  init: RequestInitExt;
+  /** Intento actual (1, 2, 3...). En scope "request" siempre es 0. */
+  attempt: number;
+  /**
+   * Señal que cancela la petición (signal del usuario + abortAll).
+   * En scope "attempt" incluye además el timeout del intento.
+   */
+  signal?: AbortSignal;
+  /** Espacio libre para compartir datos entre middlewares de la misma petición. */
+  state: Record<string, unknown>;
+}
+
+/** Ejecuta el resto de la cadena (el siguiente middleware o la petición real). */
+export type MiddlewareNext = () => Promise<Response>;
+
+/**
+ * 🧅 **Middleware**
+ * Función "onion-style": puede modificar `ctx` antes de llamar a `next()`,
+ * transformar la respuesta después, capturar errores con try/catch
+ * o devolver una `Response` sintética sin llamar a `next()` (short-circuit).
+ *
+ * @example
+ * const timing: Middleware = async (ctx, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${ctx.init.method} ${ctx.url} ${Date.now() - start}ms`);
+ *   }
+ * };
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: MiddlewareNext,
+) => Promise<Response>;
+
+export interface MiddlewareOptions {
+  /**
+   * Dónde se ejecuta el middleware:
+   * - "request" (Default): una vez por petición, envolviendo todos los reintentos.
+   * - "attempt": en cada intento, justo antes de llamar a `fetch`.
+   */
+  scope?: "request" | "attempt";
+}
+
+/**
+ * Ejecuta la cadena de middlewares en orden y termina en `handler`.
+ * `next()` puede llamarse más de una vez (ej: para repetir la petición).
+ */
+export function runMiddleware(
+  middlewares: readonly Middleware[],
+  ctx: MiddlewareContext,
+  handler: (ctx: MiddlewareContext) => Promise<Response>,
+): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    const middleware = middlewares[index];
+    if (!middleware) return handler(ctx);
+    return middleware(ctx, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
@@ -0,0 +1,358 @@
+import { SafeFetchError } from "./errors";
+import type { HttpMethod } from "./index";
+
+/**
+ * 🔌 **Transporte**
+ * Función con la firma de `fetch` que realmente envía la petición.
+ * Por defecto se usa el `fetch` global.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+/** Petición recibida por el mock (lo que se guarda en el historial). */
+export interface MockRequest {
+  method: string;
+  /** URL completa. */
+  url: string;
+  /** Solo el path (sin query). */
+  path: string;
+  /** Parámetros de la ruta (`/users/:id` -> `{ id: "1" }`). */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  /** Body enviado: JSON parseado si es posible, el valor original en otro caso. */
+  body: unknown;
+  signal?: AbortSignal | null;
+}
+
+/** Respuesta enlatada del mock. */
+export interface MockResponse {
+  /** Default: 200 */
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Objetos y arrays se envían como JSON; strings, Blob, etc. tal cual. */
+  body?: unknown;
+  /** Latencia simulada (ms). Respeta el `signal` de la petición. */
+  delay?: number;
+  /** Simula un fallo de red (`true`) o lanza el error indicado. */
+  error?: true | Error;
+}
+
+export type MockHandler =
+  | MockResponse
+  | ((
+      request: MockRequest,
+    ) => MockResponse | Response | Promise<MockResponse | Response>);
+
+/** Condiciones adicionales de una ruta. */
+export interface MockMatcher {
+  /** Query params que deben coincidir (o predicado). */
+  query?:
+    | Record<string, string | number | boolean>
+    | ((query: URLSearchParams) => boolean);
+  /** Body esperado: objeto (coincidencia parcial) o predicado. */
+  body?: Record<string, unknown> | ((body: unknown) => boolean);
+  /** Headers que deben estar presentes con ese valor. */
+  headers?: Record<string, string>;
+  /** Número de veces que la ruta responde antes de desactivarse. Default: sin límite */
+  times?: number;
+}
+
+export interface MockTransportOptions {
+  /**
+   * Si es true, una petición sin ruta lanza un error (el test falla).
+   * Si es false (default), responde 404.
+   */
+  strict?: boolean;
+  /** Latencia por defecto de todas las respuestas (ms). Default: 0 */
+  delay?: number;
+}
+
+interface Route extends MockMatcher {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+  calls: number;
+}
+
+type RouteRegistrar = (
+  path: string | RegExp,
+  handler: MockHandler,
+  matcher?: MockMatcher,
+) => MockTransport;
+
+/** Transporte mock: se pasa como `fetch` a `createSafeFetch`. */
+export interface MockTransport extends Transport {
+  /**
+   * Registra una ruta. Gana la primera que coincida.
+   * @param method Método HTTP o "*" para cualquiera.
+   * @param path `/users/:id`, con `*` como comodín, URL absoluta o RegExp.
+   */
+  on(
+    method: HttpMethod | "*",
+    path: string | RegExp,
+    handler: MockHandler,
+    matcher?: MockMatcher,
+  ): MockTransport;
+  get: RouteRegistrar;
+  post: RouteRegistrar;
+  put: RouteRegistrar;
+  patch: RouteRegistrar;
+  delete: RouteRegistrar;
+  /** Todas las peticiones recibidas, en orden. */
+  readonly history: MockRequest[];
+  /** Peticiones recibidas que coinciden con el método y (opcionalmente) el path. */
+  calls(method: HttpMethod | "*", path?: string | RegExp): MockRequest[];
+  /** Peticiones que no coincidieron con ninguna ruta. */
+  readonly unmatched: MockRequest[];
+  /** Borra rutas e historial. */
+  reset(): void;
+}
+
+/**
+ * 🧪 **Mock Transport**
+ * Tabla de rutas para tests: respuestas enlatadas o funciones, latencia,
+ * errores de red (respetando `AbortSignal`) e historial de llamadas.
+ *
+ * @example
+ * const mock = createMockTransport({ strict: true })
+ *   .get("/users/:id", ({ params }) => ({ body: { id: params.id } }))
+ *   .post("/users", { status: 201 }, { body: { name: "Ada" } })
+ *   .get("/flaky", { error: true });
+ *
+ * const api = createSafeFetch({ baseUrl: "https://api.test", fetch: mock });
+ * await api.get("/users/1");
+ * mock.calls("GET", "/users/:id").length; // 1
+ */
+export function createMockTransport(
+  options: MockTransportOptions = {},
+): MockTransport {
+  let routes: Route[] = [];
+  const history: MockRequest[] = [];
+  const unmatched: MockRequest[] = [];
+
+  const transport = async (url: string, init: RequestInit = {}) => {
+    const request = toMockRequest(url, init);
+    history.push(request);
+
+    const route = routes.find((r) => matches(r, request));
+    if (!route) {
+      unmatched.push(request);
+      if (options.strict) {
+        throw new SafeFetchError(
+          `No mock route matches ${request.method} ${request.url}`,
+          { url: request.url, method: request.method },
+        );
+      }
+      return new Response("Not Found", { status: 404 });
+    }
+
+    route.calls++;
+    request.params = extractParams(route, request);
+
+    const handled =
+      typeof route.handler === "function"
+        ? await route.handler(request)
+        : route.handler;
+    if (handled instanceof Response) return handled;
+
+    await wait(handled.delay ?? options.delay ?? 0, init.signal);
+    if (handled.error === true) throw new TypeError("Failed to fetch");
+    if (handled.error) throw handled.error;
+
+    return toResponse(handled);
+  };
+
+  const on = (
+    method: HttpMethod | "*",
+    path: string | RegExp,
+    handler: MockHandler,
+    matcher: MockMatcher = {},
+  ) => {
+    const { pattern, keys } = compilePath(path);
+    routes.push({
+      ...matcher,
+      method: method.toUpperCase(),
+      pattern,
+      keys,
+      handler,
+      calls: 0,
+    });
+    return mock;
+  };
+
+  const registrar =
+    (method: HttpMethod): RouteRegistrar =>
+    (path, handler, matcher) =>
+      on(method, path, handler, matcher);
+
+  const mock: MockTransport = Object.assign(transport, {
+    on,
+    get: registrar("GET"),
+    post: registrar("POST"),
+    put: registrar("PUT"),
+    patch: registrar("PATCH"),
+    delete: registrar("DELETE"),
+    history,
+    unmatched,
+    calls(method: HttpMethod | "*", path?: string | RegExp) {
+      const pattern = path === undefined ? undefined : compilePath(path);
+      return history.filter(
+        (request) =>
+          (method === "*" || request.method === method.toUpperCase()) &&
+          (!pattern || testPath(pattern.pattern, request)),
+      );
+    },
+    reset() {
+      routes = [];
+      history.length = 0;
+      unmatched.length = 0;
+    },
+  });
+  return mock;
+}
+
+function toMockRequest(url: string, init: RequestInit): MockRequest {
+  const parsed = new URL(url, "http://localhost");
+  return {
+    method: (init.method ?? "GET").toUpperCase(),
+    url,
+    path: parsed.pathname,
+    params: {},
+    query: parsed.searchParams,
+    headers: new Headers(init.headers),
+    body: parseMockBody(init.body),
+    signal: init.signal,
+  };
+}
+
+function parseMockBody(body: BodyInit | null | undefined): unknown {
+  if (typeof body !== "string") return body ?? undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function matches(route: Route, request: MockRequest): boolean {
+  if (route.method !== "*" && route.method !== request.method) return false;
+  if (route.times !== undefined && route.calls >= route.times) return false;
+  if (!testPath(route.pattern, request)) return false;
+
+  if (typeof route.query === "function") {
+    if (!route.query(request.query)) return false;
+  } else if (route.query) {
+    for (const [key, value] of Object.entries(route.query)) {
+      if (request.query.get(key) !== String(value)) return false;
+    }
+  }
+
+  if (route.headers) {
+    for (const [name, value] of Object.entries(route.headers)) {
+      if (request.headers.get(name) !== value) return false;
+    }
+  }
+
+  if (typeof route.body === "function") return route.body(request.body);
+  if (route.body) return isSubset(route.body, request.body);
+  return true;
+}
+
+/** Las rutas absolutas se comparan contra la URL sin query; las relativas, contra el path. */
+function testPath(pattern: RegExp, request: MockRequest): boolean {
+  return pattern.test(request.path) || pattern.test(request.url.split("?")[0]);
+}
+
+function compilePath(path: string | RegExp): {
+  pattern: RegExp;
+  keys: string[];
+} {
+  if (path instanceof RegExp) return { pattern: path, keys: [] };
+  const keys: string[] = [];
+  const source = path
+    .split("?")[0]
+    .split(/(:[A-Za-z0-9_]+|\*)/)
+    .map((part) => {
+      if (part === "*") return ".*";
+      if (part.startsWith(":")) {
+        keys.push(part.slice(1));
+        return "([^/]+)";
+      }
+      return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+}
+
+function extractParams(
+  route: Route,
+  request: MockRequest,
+): Record<string, string> {
+  const match =
+    route.pattern.exec(request.path) ??
+    route.pattern.exec(request.url.split("?")[0]);
+  if (!match) return {};
+  return Object.fromEntries(
+    route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]),
+  );
+}
+
+function isSubset(expected: unknown, actual: unknown): boolean {
+  if (expected === actual) return true;
+  if (
+    typeof expected !== "object" ||
+    expected === null ||
+    typeof actual !== "object" ||
+    actual === null
+  ) {
+    return false;
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    isSubset(value, (actual as Record<string, unknown>)[key]),
+  );
+}
+
+function toResponse({
+  status = 200,
+  statusText,
+  headers,
+  body,
+}: MockResponse): Response {
+  const isJson =
+    body !== null &&
+    typeof body === "object" &&
+    (Array.isArray(body) || Object.getPrototypeOf(body) === Object.prototype);
+  const finalHeaders = new Headers(headers);
+  if (isJson && !finalHeaders.has("Content-Type")) {
+    finalHeaders.set("Content-Type", "application/json");
+  }
+  return new Response(
+    isJson ? JSON.stringify(body) : ((body ?? null) as BodyInit | null),
+    { status, statusText, headers: finalHeaders },
+  );
+}
+
+/** Espera `ms` o rechaza con `AbortError` si se cancela la petición. */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  const abortError = () => {
+    const error = new Error("The operation was aborted");
+    error.name = "AbortError";
+    return error;
+  };
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,673 @@
+/**
+ * 🧬 **Generador de clientes a partir de OpenAPI 3.0 / 3.1**
+ * Convierte un documento OpenAPI (ya parseado) en un módulo TypeScript con los
+ * tipos de `components.schemas` y una función por operación sobre `createSafeFetch`.
+ *
+ * Lo usa el CLI `safe-fetch-gen`, pero es una función pura: recibe un objeto y devuelve código.
+ */
+
+/** Subconjunto de JSON Schema / OpenAPI Schema Object que entiende el generador. */
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  description?: string;
+  deprecated?: boolean;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  items?: OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+}
+
+interface OpenApiRef {
+  $ref?: string;
+}
+
+interface OpenApiParameter extends OpenApiRef {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiRequestBody extends OpenApiRef {
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiResponse extends OpenApiRef {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: (OpenApiParameter | OpenApiRef)[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+  security?: Record<string, string[]>[];
+}
+
+interface OpenApiSecurityScheme extends OpenApiRef {
+  type: "http" | "apiKey" | "oauth2" | "openIdConnect" | "mutualTLS";
+  scheme?: string;
+  name?: string;
+  in?: "header" | "query" | "cookie";
+}
+
+/** Documento OpenAPI 3.x (solo los campos que usa el generador). */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: { url: string }[];
+  paths?: Record<
+    string,
+    Partial<Record<OperationMethod, OpenApiOperation>> & {
+      parameters?: (OpenApiParameter | OpenApiRef)[];
+    }
+  >;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    parameters?: Record<string, OpenApiParameter>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+    responses?: Record<string, OpenApiResponse>;
+    securitySchemes?: Record<string, OpenApiSecurityScheme | OpenApiRef>;
+  };
+  security?: Record<string, string[]>[];
+}
+
+export interface GenerateClientOptions {
+  /** Módulo desde el que se importa SafeFetch. Default: "@alexfalconflores/safe-fetch" */
+  importPath?: string;
+  /** Nombre de la función que crea el cliente. Default: "createClient" */
+  clientName?: string;
+  /** `baseUrl` por defecto. Default: la primera URL de `servers` */
+  baseUrl?: string;
+}
+
+type OperationMethod = "get" | "post" | "put" | "patch" | "delete";
+
+const OPERATION_METHODS: OperationMethod[] = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+];
+
+const SCHEMA_REF = "#/components/schemas/";
+
+/**
+ * Genera el código TypeScript del cliente.
+ * @throws {Error} Si el documento no es OpenAPI 3.x o tiene un `$ref` que no se puede resolver.
+ */
+export function generateClient(
+  document: OpenApiDocument,
+  options: GenerateClientOptions = {},
+): string {
+  if (!/^3\./.test(String(document?.openapi ?? ""))) {
+    throw new Error(
+      `Unsupported document: expected OpenAPI 3.x, got "${document?.openapi ?? "unknown"}"`,
+    );
+  }
+
+  const {
+    importPath = "@alexfalconflores/safe-fetch",
+    clientName = "createClient",
+    baseUrl = document.servers?.[0]?.url,
+  } = options;
+
+  const resolve = <T extends OpenApiRef>(value: T | OpenApiRef): T => {
+    let current = value as T;
+    const seen = new Set<string>();
+    while (current?.$ref) {
+      if (seen.has(current.$ref))
+        throw new Error(`Circular $ref: ${current.$ref}`);
+      seen.add(current.$ref);
+      current = resolvePointer(document, current.$ref) as T;
+    }
+    return current;
+  };
+
+  const toType = (schema: OpenApiSchema | undefined, depth = 0): string =>
+    schemaToType(schema, depth, (ref) => {
+      if (ref.startsWith(SCHEMA_REF)) {
+        return typeName(decodePointer(ref.slice(SCHEMA_REF.length)));
+      }
+      return toType(resolve({ $ref: ref }) as OpenApiSchema, depth);
+    });
+
+  const out: string[] = [
+    "/* eslint-disable */",
+    "/**",
+    ` * ⚠️ Generado por safe-fetch-gen a partir de "${document.info?.title ?? "OpenAPI"}"${document.info?.version ? ` (${document.info.version})` : ""}.`,
+    " * No editar a mano: vuelve a ejecutar el generador.",
+    " */",
+    `import { createSafeFetch } from ${JSON.stringify(importPath)};`,
+    `import type { HeadersType, RequestInitExt } from ${JSON.stringify(importPath)};`,
+    "",
+  ];
+
+  // 1. Tipos de components.schemas
+  for (const [name, schema] of Object.entries(
+    document.components?.schemas ?? {},
+  )) {
+    out.push(...docComment(schema.description, "", schema.deprecated));
+    const type = toType(schema);
+    out.push(
+      isObjectLiteral(type)
+        ? `export interface ${typeName(name)} ${type}`
+        : `export type ${typeName(name)} = ${type};`,
+      "",
+    );
+  }
+
+  // 2. Headers de autenticación (securitySchemes)
+  out.push(
+    "/** Headers de autenticación declarados en `securitySchemes`. */",
+    ...authHeaders(document, resolve),
+    "",
+    "/** Opciones de cada operación (todo `RequestInitExt` salvo `body`, `params` y `schema`). */",
+    'export type RequestOptions = Omit<RequestInitExt, "method" | "body" | "params" | "schema"> & {',
+    "  headers?: HeadersType & AuthHeaders;",
+    "};",
+    "",
+  );
+
+  // 3. Cliente: una función por operación
+  out.push(
+    "/**",
+    " * Crea el cliente tipado.",
+    " * @param api Instancia de SafeFetch a usar (headers, auth, retries...).",
+    " */",
+    `export function ${clientName}(`,
+    `  api = createSafeFetch(${baseUrl ? `{ baseUrl: ${JSON.stringify(baseUrl)} }` : ""}),`,
+    ") {",
+    "  return {",
+  );
+
+  const usedNames = new Set<string>();
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    for (const method of OPERATION_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      const name = uniqueName(
+        operationName(operation, method, path),
+        usedNames,
+      );
+      const parameters = mergeParameters(
+        (item.parameters ?? []).map(resolve),
+        (operation.parameters ?? []).map(resolve),
+      );
+      out.push(
+        ...operationCode({
+          name,
+          method,
+          path,
+          operation,
+          parameters,
+          security: operation.security ?? document.security,
+          resolve,
+          toType,
+        }).map((line) => `    ${line}`),
+      );
+    }
+  }
+
+  out.push(
+    "  };",
+    "}",
+    "",
+    `export type Client = ReturnType<typeof ${clientName}>;`,
+    "",
+  );
+  return out.join("\n");
+}
+
+interface OperationContext {
+  name: string;
+  method: OperationMethod;
+  path: string;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+  security?: Record<string, string[]>[];
+  resolve: <T extends OpenApiRef>(value: T | OpenApiRef) => T;
+  toType: (schema: OpenApiSchema | undefined, depth?: number) => string;
+}
+
+function operationCode({
+  name,
+  method,
+  path,
+  operation,
+  parameters,
+  security,
+  resolve,
+  toType,
+}: OperationContext): string[] {
+  const pathParams = parameters.filter((p) => p.in === "path");
+  const queryParams = parameters.filter((p) => p.in === "query");
+  const args: string[] = [];
+
+  // path + query -> un único objeto `params`
+  const urlParams = [...pathParams, ...queryParams];
+  const paramsRequired = urlParams.some((p) => p.in === "path" || p.required);
+  if (urlParams.length) {
+    const fields = urlParams.map((p) => {
+      const optional = p.in !== "path" && !p.required;
+      const comment = p.description ? `/** ${oneLine(p.description)} */ ` : "";
+      return `${comment}${propertyKey(p.name)}${optional ? "?" : ""}: ${toType(p.schema, 1)}`;
+    });
+    args.push(`params${paramsRequired ? "" : "?"}: { ${fields.join("; ")} }`);
+  }
+
+  const body = operation.requestBody && resolve(operation.requestBody);
+  const { type: bodyType, contentType } = body
+    ? requestBodyType(body, toType)
+    : { type: undefined, contentType: undefined };
+  if (bodyType) {
+    args.push(`body${body?.required ? "" : "?"}: ${bodyType}`);
+  }
+  args.push("init?: RequestOptions");
+
+  const { type: responseType, responseType: mode } = responseBodyType(
+    operation.responses ?? {},
+    resolve,
+    toType,
+  );
+
+  const url = pathTemplate(path, pathParams);
+  const initFields = ["...init"];
+  if (queryParams.length) {
+    const query = queryParams.map(
+      (p) =>
+        `${propertyKey(p.name)}: params${paramsRequired ? "" : "?"}${propertyAccess(p.name)}`,
+    );
+    initFields.push(`params: { ${query.join(", ")} }`);
+  }
+  if (mode) initFields.push(`responseType: ${JSON.stringify(mode)}`);
+  if (contentType) {
+    initFields.push(
+      `headers: { "Content-Type": ${JSON.stringify(contentType)}, ...init?.headers }`,
+    );
+  }
+
+  const callArgs = [url];
+  if (method === "post" || method === "put" || method === "patch") {
+    callArgs.push(bodyType ? "body" : "undefined");
+  } else if (bodyType) {
+    initFields.push("body");
+  }
+  callArgs.push(
+    initFields.length > 1 ? `{ ${initFields.join(", ")} }` : "init",
+  );
+
+  const schemes = (security ?? []).flatMap((s) => Object.keys(s));
+  return [
+    ...docComment(
+      [
+        operation.summary,
+        operation.description,
+        `\`${method.toUpperCase()} ${path}\``,
+        schemes.length ? `@security ${[...new Set(schemes)].join(", ")}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      "",
+      operation.deprecated,
+    ),
+    `${name}: (${args.join(", ")}) =>`,
+    `  api.${method}<${responseType}>(${callArgs.join(", ")}),`,
+  ];
+}
+
+/** `/users/{id}` -> `` `/users/${encodeURIComponent(String(params.id))}` `` */
+function pathTemplate(path: string, pathParams: OpenApiParameter[]): string {
+  if (!pathParams.length) return JSON.stringify(path);
+  const template = path
+    .replace(/[`\\]/g, "\\$&")
+    .replace(/\{([^}]+)\}/g, (_, name: string) =>
+      pathParams.some((p) => p.name === name)
+        ? `\${encodeURIComponent(String(params${propertyAccess(name)}))}`
+        : `{${name}}`,
+    );
+  return `\`${template}\``;
+}
+
+/** Los parámetros de la operación sobrescriben los del path (mismo `name` + `in`). */
+function mergeParameters(
+  pathLevel: OpenApiParameter[],
+  operationLevel: OpenApiParameter[],
+): OpenApiParameter[] {
+  const key = (p: OpenApiParameter) => `${p.in}:${p.name}`;
+  const overridden = new Set(operationLevel.map(key));
+  return [
+    ...pathLevel.filter((p) => !overridden.has(key(p))),
+    ...operationLevel,
+  ];
+}
+
+/**
+ * Tipo del body según su media type. Para los que no son JSON ni FormData se
+ * devuelve también el `Content-Type` a enviar (si no, SafeFetch pondría JSON).
+ */
+function requestBodyType(
+  body: OpenApiRequestBody,
+  toType: OperationContext["toType"],
+): { type?: string; contentType?: string } {
+  const content = body.content ?? {};
+  const types = Object.keys(content);
+  if (!types.length) return {};
+
+  const json = types.find(isJson);
+  if (json) return { type: toType(content[json].schema, 1) };
+  if (types.includes("multipart/form-data")) return { type: "FormData" };
+  if (types.includes("application/x-www-form-urlencoded"))
+    return { type: "URLSearchParams" };
+  const text = types.find((t) => t.startsWith("text/"));
+  if (text) return { type: "string", contentType: text };
+  return { type: "Blob | ArrayBuffer", contentType: types[0] };
+}
+
+/** Tipo de la primera respuesta 2xx y el `responseType` que necesita (si no es JSON). */
+function responseBodyType(
+  responses: Record<string, OpenApiResponse>,
+  resolve: OperationContext["resolve"],
+  toType: OperationContext["toType"],
+): { type: string; responseType?: "text" | "blob" } {
+  const status = Object.keys(responses)
+    .filter((code) => /^2(\d\d|XX)$/i.test(code))
+    .sort()[0];
+  const response = status ? resolve(responses[status]) : responses.default;
+  if (!status && !response) return { type: "unknown" };
+  const content = response ? resolve(response).content : undefined;
+  const types = Object.keys(content ?? {});
+  if (!content || !types.length) return { type: "void" };
+
+  const json = types.find(isJson);
+  if (json) return { type: toType(content[json].schema, 1) };
+  if (types.some((t) => t.startsWith("text/")))
+    return { type: "string", responseType: "text" };
+  return { type: "Blob", responseType: "blob" };
+}
+
+function authHeaders(
+  document: OpenApiDocument,
+  resolve: OperationContext["resolve"],
+): string[] {
+  const headers = new Map<string, { types: Set<string>; names: string[] }>();
+  const add = (header: string, type: string, name: string) => {
+    const entry = headers.get(header) ?? { types: new Set(), names: [] };
+    entry.types.add(type);
+    entry.names.push(name);
+    headers.set(header, entry);
+  };
+
+  for (const [name, raw] of Object.entries(
+    document.components?.securitySchemes ?? {},
+  )) {
+    const scheme = resolve(raw);
+    if (scheme.type === "http") {
+      const kind = (scheme.scheme ?? "bearer").toLowerCase();
+      const prefix = kind.charAt(0).toUpperCase() + kind.slice(1);
+      add("Authorization", `\`${prefix} \${string}\``, name);
+    } else if (scheme.type === "oauth2" || scheme.type === "openIdConnect") {
+      add("Authorization", "`Bearer ${string}`", name);
+    } else if (
+      scheme.type === "apiKey" &&
+      scheme.in === "header" &&
+      scheme.name
+    ) {
+      add(scheme.name, "string", name);
+    }
+  }
+
+  if (!headers.size) return ["export interface AuthHeaders {}"];
+  return [
+    "export interface AuthHeaders {",
+    ...[...headers].flatMap(([header, { types, names }]) => [
+      `  /** ${names.join(", ")} */`,
+      `  ${propertyKey(header)}?: ${[...types].join(" | ")};`,
+    ]),
+    "}",
+  ];
+}
+
+/** Convierte un Schema Object en un tipo TypeScript. */
+function schemaToType(
+  schema: OpenApiSchema | undefined,
+  depth: number,
+  ref: (ref: string) => string,
+): string {
+  if (!schema || typeof schema !== "object") return "unknown";
+  if (schema.$ref) return ref(schema.$ref);
+
+  const recurse = (s: OpenApiSchema | undefined, d = depth) =>
+    schemaToType(s, d, ref);
+
+  const parts: string[] = [];
+  if (schema.const !== undefined) {
+    parts.push(JSON.stringify(schema.const));
+  } else if (schema.enum) {
+    parts.push(schema.enum.map((v) => JSON.stringify(v)).join(" | "));
+  } else {
+    const base = baseType(schema, depth, recurse);
+    if (base) parts.push(base);
+  }
+
+  if (schema.allOf?.length) {
+    parts.push(...schema.allOf.map((s) => wrap(recurse(s))));
+  }
+  const union = schema.oneOf ?? schema.anyOf;
+  if (union?.length) parts.push(union.map((s) => recurse(s)).join(" | "));
+
+  let type = parts.length
+    ? parts.length === 1
+      ? parts[0]
+      : parts.map(wrap).join(" & ")
+    : "unknown";
+  if (schema.nullable && type !== "unknown") type = `${type} | null`;
+  return type;
+}
+
+function baseType(
+  schema: OpenApiSchema,
+  depth: number,
+  recurse: (s: OpenApiSchema | undefined, depth?: number) => string,
+): string | undefined {
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : schema.properties || schema.additionalProperties !== undefined
+        ? ["object"]
+        : schema.items
+          ? ["array"]
+          : [];
+  if (!types.length) return undefined;
+
+  return types
+    .map((type) => {
+      switch (type) {
+        case "string":
+          return schema.format === "binary" ? "Blob" : "string";
+        case "integer":
+        case "number":
+          return "number";
+        case "boolean":
+          return "boolean";
+        case "null":
+          return "null";
+        case "array":
+          return `Array<${recurse(schema.items)}>`;
+        case "object":
+          return objectType(schema, depth, recurse);
+        default:
+          return "unknown";
+      }
+    })
+    .join(" | ");
+}
+
+function objectType(
+  schema: OpenApiSchema,
+  depth: number,
+  recurse: (s: OpenApiSchema | undefined, depth?: number) => string,
+): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+  if (!properties.length) {
+    if (extra === false) return "{}";
+    return `Record<string, ${typeof extra === "object" ? recurse(extra) : "unknown"}>`;
+  }
+
+  const indent = "  ".repeat(depth + 1);
+  const required = new Set(schema.required ?? []);
+  const lines = properties.flatMap(([name, property]) => [
+    ...docComment(property.description, indent, property.deprecated),
+    `${indent}${propertyKey(name)}${required.has(name) ? "" : "?"}: ${recurse(property, depth + 1)};`,
+  ]);
+  if (extra) {
+    lines.push(
+      // `unknown`: la firma de índice debe admitir también las propiedades declaradas
+      `${indent}[key: string]: unknown;`,
+    );
+  }
+  return `{\n${lines.join("\n")}\n${"  ".repeat(depth)}}`;
+}
+
+/** Paréntesis para uniones dentro de intersecciones (`(A | B) & C`). */
+function wrap(type: string): string {
+  return !isObjectLiteral(type) && / [|&] /.test(type) ? `(${type})` : type;
+}
+
+/**
+ * Si `type` es un único literal de objeto (`{ ... }`) y no una unión o
+ * intersección que empieza por uno (`{ ... } | null`, `{ ... } & Base`).
+ */
+function isObjectLiteral(type: string): boolean {
+  if (!type.startsWith("{")) return false;
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    if (type[i] === '"') {
+      // Claves y literales (JSON.stringify): las llaves de dentro no cuentan
+      for (i++; i < type.length && type[i] !== '"'; i++) {
+        if (type[i] === "\\") i++;
+      }
+    } else if (type.startsWith("/*", i)) {
+      const close = type.indexOf("*/", i + 2);
+      if (close < 0) return false;
+      i = close + 1;
+    } else if (type[i] === "{") {
+      depth++;
+    } else if (type[i] === "}" && --depth === 0) {
+      return i === type.length - 1;
+    }
+  }
+  return false;
+}
+
+function docComment(
+  text: string | undefined,
+  indent: string,
+  deprecated?: boolean,
+): string[] {
+  const lines = (text ?? "")
+    .split("\n")
+    .map((line) => line.replace(/\*\//g, "*\\/").trimEnd());
+  if (deprecated) lines.push("@deprecated");
+  const content = lines.filter((line, i) => line || i > 0);
+  if (!content.length) return [];
+  if (content.length === 1) return [`${indent}/** ${content[0]} */`];
+  return [
+    `${indent}/**`,
+    ...content.map((line) => `${indent} *${line ? ` ${line}` : ""}`),
+    `${indent} */`,
+  ];
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\*\//g, "*\\/").trim();
+}
+
+function isJson(mediaType: string): boolean {
+  return /^application\/(.+\+)?json/.test(mediaType) || mediaType === "*/*";
+}
+
+function operationName(
+  operation: OpenApiOperation,
+  method: string,
+  path: string,
+): string {
+  if (operation.operationId) return camelCase(operation.operationId);
+  const segments = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith("{") ? `By ${segment.slice(1, -1)}` : segment,
+    );
+  return camelCase([method, ...segments].join(" "));
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let unique = name;
+  for (let i = 2; used.has(unique); i++) unique = `${name}${i}`;
+  used.add(unique);
+  return unique;
+}
+
+function camelCase(value: string): string {
+  const name = typeName(value);
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/** Nombre de tipo válido en PascalCase (`user-profile` -> `UserProfile`). */
+function typeName(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+  return /^\d/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function propertyAccess(name: string): string {
+  return IDENTIFIER.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+}
+
+function decodePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/** Resuelve un `$ref` local (`#/components/...`). */
+function resolvePointer(document: OpenApiDocument, ref: string): unknown {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`Unsupported $ref (only local refs are allowed): ${ref}`);
+  }
+  let current: unknown = document;
+  for (const segment of ref.slice(2).split("/").map(decodePointer)) {
+    current = (current as Record<string, unknown> | undefined)?.[segment];
+    if (current === undefined) throw new Error(`Unresolved $ref: ${ref}`);
+  }
+  return current;
+}
@@ -0,0 +1,298 @@
+import { AbortError, SafeFetchError } from "./errors";
+import type { QueryParams } from "./query";
+
+/**
+ * 📚 **Estrategias de paginación**
+ * - "link": sigue el header `Link: <...>; rel="next"` (RFC 5988, GitHub, GitLab...).
+ * - "cursor": lee el siguiente cursor del body (`next`: ruta `"meta.next_cursor"` o función)
+ *   y lo envía en el query param `param` (Default: "cursor").
+ * - "offset": `offset` / `limit` en la query; termina con una página incompleta.
+ * - "page": `page` (desde `start`, Default: 1); termina con una página vacía o incompleta.
+ */
+export type PaginationStrategy =
+  | "link"
+  | { type: "link" }
+  | {
+      type: "cursor";
+      next: string | ((body: any) => unknown);
+      /** Default: "cursor" */
+      param?: string;
+    }
+  | {
+      type: "offset";
+      /** Elementos por página. */
+      limit: number;
+      /** Default: "offset" */
+      offsetParam?: string;
+      /** Default: "limit" */
+      limitParam?: string;
+      /** Default: 0 */
+      start?: number;
+    }
+  | {
+      type: "page";
+      /** Default: "page" */
+      param?: string;
+      /** Default: 1 */
+      start?: number;
+      /** Elementos por página (se envía en `sizeParam` si se indica). */
+      size?: number;
+      sizeParam?: string;
+    };
+
+/**
+ * Siguiente petición. `params` se fusiona con los de la página actual;
+ * una `url` nueva la sustituye junto con sus params (suele traerlos ya, como `Link`).
+ */
+export interface NextPageRequest {
+  url?: string;
+  params?: QueryParams;
+}
+
+/** Una página descargada. */
+export interface PaginationPage<T> {
+  /** Elementos de la página. */
+  items: T[];
+  /** Body completo (ya parseado y validado con `schema`). */
+  data: unknown;
+  response: Response;
+  /** Número de página (empieza en 0). */
+  index: number;
+}
+
+/** Opciones propias de `paginate` (el resto son las de cualquier petición). */
+export interface PaginateOptions<T> {
+  /** Default: "link" */
+  strategy?: PaginationStrategy;
+  /**
+   * Dónde están los elementos en el body: ruta (`"data.items"`) o función.
+   * Default: el body si es un array, o su `items` / `data` / `results`.
+   */
+  items?: string | ((body: any) => T[]);
+  /** Decide la siguiente petición (sustituye a la de la estrategia). `null` = última página. */
+  getNextRequest?: (
+    response: Response,
+    body: any,
+    page: PaginationPage<T>,
+  ) =>
+    | NextPageRequest
+    | null
+    | undefined
+    | Promise<NextPageRequest | null | undefined>;
+  /** Máximo de páginas a descargar. Default: sin límite */
+  maxPages?: number;
+}
+
+/**
+ * 📚 Iterador de una lista paginada. Cada `for await` empieza desde la primera
+ * página y solo descarga las que se consumen.
+ */
+export interface Paginator<T> extends AsyncIterable<T> {
+  /** Itera página a página (con su `response` y el body completo). */
+  pages(): AsyncIterableIterator<PaginationPage<T>>;
+  /** Descarga los elementos en un array, parando al llegar a `limit`. */
+  toArray(options?: { limit?: number }): Promise<T[]>;
+}
+
+/** Petición de una página: la hace la instancia (reintentos, interceptores, etc.). */
+type FetchPage = (
+  url: string,
+  init: Record<string, any>,
+) => Promise<{ data: unknown; response: Response }>;
+
+/**
+ * Crea el iterador de `api.paginate()`.
+ * @param fetchPage Ejecuta cada petición con el pipeline de la instancia.
+ */
+export function paginate<T>(
+  url: string,
+  options: PaginateOptions<T> & Record<string, any>,
+  fetchPage: FetchPage,
+): Paginator<T> {
+  const {
+    strategy: strategyOption,
+    items: itemsOption,
+    getNextRequest,
+    maxPages,
+    ...init
+  } = options;
+  const strategy =
+    strategyOption === undefined || strategyOption === "link"
+      ? { type: "link" as const }
+      : strategyOption;
+
+  async function* pages(): AsyncIterableIterator<PaginationPage<T>> {
+    let currentUrl = url;
+    let path = init.path;
+    let params: QueryParams = { ...init.params, ...firstParams(strategy) };
+
+    for (let index = 0; maxPages === undefined || index < maxPages; index++) {
+      if (init.signal?.aborted) {
+        throw new AbortError("user", { url: currentUrl, method: init.method });
+      }
+
+      const { data, response } = await fetchPage(currentUrl, {
+        ...init,
+        method: "GET",
+        path,
+        params,
+      });
+      const page: PaginationPage<T> = {
+        items: extractItems<T>(data, itemsOption, currentUrl, index),
+        data,
+        response,
+        index,
+      };
+      yield page;
+
+      const next = getNextRequest
+        ? await getNextRequest(response, data, page)
+        : nextFromStrategy(strategy, page, params);
+      if (!next) return;
+
+      if (next.url !== undefined) {
+        currentUrl = next.url;
+        path = undefined;
+        params = { ...next.params };
+      } else {
+        params = { ...params, ...next.params };
+      }
+    }
+  }
+
+  async function* items(): AsyncIterableIterator<T> {
+    for await (const page of pages()) yield* page.items;
+  }
+
+  return {
+    [Symbol.asyncIterator]: items,
+    pages,
+    async toArray({ limit = Infinity } = {}) {
+      const result: T[] = [];
+      if (limit <= 0) return result;
+      // Salir del `for await` cierra el generador: no se piden más páginas
+      for await (const item of items()) {
+        result.push(item);
+        if (result.length >= limit) break;
+      }
+      return result;
+    },
+  };
+}
+
+/** Params de la primera página. */
+function firstParams(strategy: Exclude<PaginationStrategy, "link">) {
+  switch (strategy.type) {
+    case "offset":
+      return {
+        [strategy.offsetParam ?? "offset"]: strategy.start ?? 0,
+        [strategy.limitParam ?? "limit"]: strategy.limit,
+      };
+    case "page":
+      return {
+        [strategy.param ?? "page"]: strategy.start ?? 1,
+        ...(strategy.size !== undefined && strategy.sizeParam
+          ? { [strategy.sizeParam]: strategy.size }
+          : {}),
+      };
+    default:
+      return {};
+  }
+}
+
+function nextFromStrategy<T>(
+  strategy: Exclude<PaginationStrategy, "link">,
+  page: PaginationPage<T>,
+  params: QueryParams,
+): NextPageRequest | undefined {
+  const count = page.items.length;
+  switch (strategy.type) {
+    case "link": {
+      const next = parseLinkHeader(page.response.headers.get("Link")).next;
+      if (!next) return undefined;
+      // Relativo al documento si lo conocemos; si no, lo resuelve `baseUrl`
+      return {
+        url: page.response.url ? new URL(next, page.response.url).href : next,
+      };
+    }
+    case "cursor": {
+      const cursor =
+        typeof strategy.next === "function"
+          ? strategy.next(page.data)
+          : getPath(page.data, strategy.next);
+      if (cursor === undefined || cursor === null || cursor === "") {
+        return undefined;
+      }
+      return { params: { [strategy.param ?? "cursor"]: String(cursor) } };
+    }
+    case "offset": {
+      if (count < strategy.limit) return undefined;
+      const param = strategy.offsetParam ?? "offset";
+      return { params: { [param]: Number(params[param] ?? 0) + count } };
+    }
+    case "page": {
+      if (
+        count === 0 ||
+        (strategy.size !== undefined && count < strategy.size)
+      ) {
+        return undefined;
+      }
+      const param = strategy.param ?? "page";
+      return { params: { [param]: Number(params[param] ?? 1) + 1 } };
+    }
+  }
+}
+
+/**
+ * Parsea un header `Link` (RFC 5988).
+ * @example
+ * parseLinkHeader('<https://api.test/u?page=2>; rel="next"').next // "https://api.test/u?page=2"
+ */
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  for (const part of header.split(/,(?=\s*<)/)) {
+    const match = /<([^>]*)>(.*)/.exec(part.trim());
+    if (!match) continue;
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2])?.[1];
+    // `rel` puede traer varios valores: rel="next last"
+    rel?.split(/\s+/).forEach((name) => (links[name.toLowerCase()] = match[1]));
+  }
+  return links;
+}
+
+function extractItems<T>(
+  data: unknown,
+  option: PaginateOptions<T>["items"],
+  url: string,
+  index: number,
+): T[] {
+  if (typeof option === "function") return option(data);
+  const found = option
+    ? getPath(data, option)
+    : Array.isArray(data)
+      ? data
+      : ["items", "data", "results"]
+          .map((key) => getPath(data, key))
+          .find(Array.isArray);
+  if (!Array.isArray(found)) {
+    throw new SafeFetchError(
+      `Page ${index + 1} of ${url} has no items array${option ? ` at "${option}"` : ""}, use the \`items\` option`,
+      { url, method: "GET" },
+    );
+  }
+  return found;
+}
+
+/** Lee `"a.b.c"` de un objeto. */
+function getPath(data: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data,
+    );
+}
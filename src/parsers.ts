@@ -0,0 +1,162 @@
+import { ParseError, SafeFetchError } from "./errors";
+import type { SafeFetchErrorOptions } from "./errors";
+import type { ContentType } from "./index";
+
+/** Lee el body de una respuesta con un `Content-Type` concreto. */
+export type ResponseParser = (response: Response) => unknown | Promise<unknown>;
+
+/**
+ * 🧩 **Parsers por `Content-Type`** (`responseType: "auto"`)
+ * Admiten comodines (`"text/*"`) y se suman a los de serie.
+ * @example
+ * parsers: { "text/csv": async (res) => parseCsv(await res.text()) }
+ */
+export type ResponseParsers = Partial<
+  Record<ContentType | `${string}/*`, ResponseParser>
+>;
+
+/** Registro de parsers de una instancia (`api.parsers`). */
+export interface ParserRegistry {
+  /** Registra (o sustituye) el parser de un tipo (`"text/csv"`, `"image/*"`...). */
+  register(type: ContentType | `${string}/*`, parser: ResponseParser): void;
+  /** Quita un parser registrado con `register`. */
+  unregister(type: ContentType | `${string}/*`): void;
+  /** Parser que se usaría para un `Content-Type` (con parámetros o sufijos `+json`). */
+  get(contentType: string): ResponseParser | undefined;
+}
+
+const json: ResponseParser = async (response) => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ParseError(text, response, { cause: error });
+  }
+};
+const text: ResponseParser = (response) => response.text();
+const blob: ResponseParser = (response) => response.blob();
+
+/** Parsers de serie: JSON, texto y binarios. */
+const builtinParsers: Record<string, ResponseParser> = {
+  "application/json": json,
+  "text/*": text,
+  "application/xml": text,
+  "application/javascript": text,
+  "application/yaml": text,
+  "application/x-www-form-urlencoded": text,
+  "application/x-ndjson": text,
+  "image/*": blob,
+  "audio/*": blob,
+  "video/*": blob,
+  "font/*": blob,
+  "application/*": blob,
+};
+
+/**
+ * Crea el registro de parsers de una instancia.
+ * @param getParsers Devuelve los parsers de la configuración global.
+ */
+export function createParserRegistry(
+  getParsers: () => ResponseParsers | undefined,
+) {
+  const registered = new Map<string, ResponseParser>();
+
+  /** `type` ya viene en minúsculas; las claves de la configuración puede que no. */
+  const find = (type: string): ResponseParser | undefined =>
+    registered.get(type) ??
+    Object.entries(
+      (getParsers() ?? {}) as Record<string, ResponseParser | undefined>,
+    ).find(([key]) => key.toLowerCase() === type)?.[1];
+
+  /** Exacto, luego sufijo (`+json`, `+xml`), luego comodín (`text/*`). */
+  const get = (contentType: string): ResponseParser | undefined => {
+    const mediaType = contentType.split(";")[0].trim().toLowerCase();
+    if (!mediaType) return undefined;
+    const [major] = mediaType.split("/");
+    const suffix = /\+(json|xml)$/.exec(mediaType)?.[1];
+    const candidates = [
+      mediaType,
+      ...(suffix ? [`application/${suffix}`] : []),
+      `${major}/*`,
+    ];
+    for (const type of candidates) {
+      const parser = find(type);
+      if (parser) return parser;
+    }
+    for (const type of candidates) {
+      if (builtinParsers[type]) return builtinParsers[type];
+    }
+    return undefined;
+  };
+
+  const registry: ParserRegistry = {
+    register: (type, parser) => registered.set(type.toLowerCase(), parser),
+    unregister: (type) => registered.delete(type.toLowerCase()),
+    get,
+  };
+
+  /**
+   * Parsea según el `Content-Type` de la respuesta. Sin él, usa el primer tipo
+   * del `Accept` de la petición con parser; si tampoco hay, JSON o texto.
+   *
+   * @param strict Si es true, un JSON malformado lanza `ParseError`; si no, devuelve el texto.
+   */
+  const parse = async (
+    response: Response,
+    accept: string | undefined,
+    strict: boolean,
+    info: SafeFetchErrorOptions,
+  ): Promise<{ data: unknown; raw: unknown }> => {
+    const contentType = response.headers.get("Content-Type");
+    const fromAccept = (accept ?? "")
+      .split(",")
+      .map((type) => type.trim())
+      .filter((type) => type && !type.startsWith("*/*"))
+      .map(get)
+      .find(Boolean);
+    const parser = contentType ? get(contentType) : fromAccept;
+
+    if (!parser) {
+      // Sin pistas: JSON si lo es, texto si no
+      const body = await response.text();
+      try {
+        return { data: body ? JSON.parse(body) : null, raw: body };
+      } catch {
+        return { data: body, raw: body };
+      }
+    }
+
+    try {
+      const data = await parser(response);
+      return { data, raw: data };
+    } catch (error) {
+      if (error instanceof ParseError) {
+        if (!strict) return { data: error.body, raw: error.body };
+        throw new ParseError(error.body, response, {
+          ...info,
+          cause: error.cause,
+        });
+      }
+      // Errores de la petición (abort, red al leer el body...) salen tal cual;
+      // solo se envuelve lo que falle en la lógica del parser
+      if (isTransferError(error)) throw error;
+      throw new ParseError("", response, { ...info, cause: error });
+    }
+  };
+
+  return { registry, parse };
+}
+
+/**
+ * Errores al leer el body: los de SafeFetch, los aborts y los `TypeError`
+ * con que `fetch` rechaza cuando se corta la red a mitad de lectura.
+ */
+function isTransferError(error: unknown): boolean {
+  return (
+    error instanceof SafeFetchError ||
+    error instanceof TypeError ||
+    (error instanceof Error &&
+      (error.name === "AbortError" || error.name === "TimeoutError"))
+  );
+}
@@ -0,0 +1,88 @@
+import { SafeFetchError } from "./errors";
+
+/** Valor admitido en un parámetro de path. */
+export type PathValue = string | number | boolean;
+
+/**
+ * Nombres de los parámetros de una plantilla de path.
+ * Admite `:id` (al inicio de un segmento) y `{id}`.
+ * @example
+ * PathParams<"/users/:id/posts/{postId}"> // "id" | "postId"
+ */
+export type PathParams<P extends string> =
+  P extends `${infer Head}{${infer Param}}${infer Rest}`
+    ? PathParams<Head> | Param | PathParams<Rest>
+    : P extends `${string}/:${infer Param}/${infer Rest}`
+      ? ParamName<Param> | PathParams<`/${Rest}`>
+      : P extends `${string}/:${infer Param}`
+        ? ParamName<Param>
+        : never;
+
+/** `:id.json` -> `id` (el nombre termina en el primer carácter no válido). */
+type ParamName<S extends string> = S extends `${infer Name}.${string}`
+  ? Name
+  : S extends `${infer Name}?${string}`
+    ? Name
+    : S;
+
+/**
+ * Valores de `path` para una URL.
+ * Con una URL literal, las claves se infieren de la plantilla; con un `string` genérico,
+ * se acepta cualquier objeto.
+ */
+export type PathValues<P extends string> = string extends P
+  ? Record<string, PathValue>
+  : [PathParams<P>] extends [never]
+    ? Record<string, never>
+    : { [K in PathParams<P>]: PathValue };
+
+/** `{name}` en cualquier sitio, o `:name` al inicio de un segmento (`files:batchGet` no es un parámetro). */
+const PARAM_PATTERN = /\{([^{}/]+)\}|(^|\/):([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Sustituye los parámetros de la plantilla por sus valores codificados con
+ * `encodeURIComponent` (un id con `/`, `#` o `?` no rompe la URL).
+ * Solo se toca el path: ni el origen (`host:8080`) ni la query.
+ *
+ * @throws {SafeFetchError} Si falta un parámetro o sobra alguna clave.
+ */
+export function fillPath(
+  url: string,
+  values: Record<string, PathValue | null | undefined>,
+  method?: string,
+): string {
+  const origin = /^[a-z][a-z\d+.-]*:\/\/[^/?#]*/i.exec(url)?.[0] ?? "";
+  const rest = url.slice(origin.length);
+  const suffixIndex = rest.search(/[?#]/);
+  const pathname = suffixIndex === -1 ? rest : rest.slice(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? "" : rest.slice(suffixIndex);
+
+  const used = new Set<string>();
+  const filled = pathname.replace(
+    PARAM_PATTERN,
+    (_, braced: string | undefined, slash = "", colon: string | undefined) => {
+      const name = (braced ?? colon)!;
+      const value = values[name];
+      if (value === undefined || value === null) {
+        throw new SafeFetchError(
+          `Missing path parameter "${name}" for ${url}`,
+          { url, method },
+        );
+      }
+      used.add(name);
+      return `${slash}${encodeURIComponent(String(value))}`;
+    },
+  );
+
+  const extra = Object.keys(values).filter((key) => !used.has(key));
+  if (extra.length) {
+    throw new SafeFetchError(
+      `Unknown path parameter${extra.length > 1 ? "s" : ""} ${extra
+        .map((key) => `"${key}"`)
+        .join(", ")} for ${url}`,
+      { url, method },
+    );
+  }
+
+  return origin + filled + suffix;
+}
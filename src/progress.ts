@@ -0,0 +1,237 @@
+/** 📶 Estado de una subida o descarga en curso. */
+export interface TransferProgress {
+  /** Bytes transferidos hasta ahora. */
+  loaded: number;
+  /** Tamaño total en bytes, si se conoce (`Content-Length` o tamaño del body). */
+  total?: number;
+  /** Porcentaje (0-100), si se conoce el total. */
+  percent?: number;
+  /** Velocidad media en bytes por segundo. */
+  rate: number;
+}
+
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+/** Tamaño de cada trozo al convertir un body en memoria a stream (64 KB). */
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/** Acumula bytes transferidos y notifica el progreso. */
+function createProgress(
+  total: number | undefined,
+  onProgress: ProgressCallback,
+) {
+  const startedAt = Date.now();
+  let loaded = 0;
+
+  const emit = (size?: number) => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    onProgress({
+      loaded,
+      total: size,
+      percent:
+        size === undefined
+          ? undefined
+          : size === 0
+            ? 100
+            : Math.min(100, (loaded / size) * 100),
+      rate: elapsed > 0 ? loaded / elapsed : 0,
+    });
+  };
+
+  return {
+    add(bytes: number) {
+      loaded += bytes;
+      emit(total);
+    },
+    /** Último evento: si el total era desconocido, ahora ya se sabe. */
+    finish() {
+      if (total === undefined) emit(loaded);
+    },
+    /** Sin streaming: todo el body se envió de golpe. */
+    complete(size: number) {
+      loaded = size;
+      emit(size);
+    },
+  };
+}
+
+/** Envuelve un stream para contar los bytes que pasan por él. */
+function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onProgress: ProgressCallback,
+): ReadableStream<Uint8Array> {
+  const progress = createProgress(total, onProgress);
+  const reader = stream.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        progress.finish();
+        controller.close();
+        return;
+      }
+      progress.add(value.byteLength);
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Devuelve una copia de la respuesta cuyo body notifica el progreso de descarga.
+ * El total sale de `Content-Length`, salvo que el body venga comprimido
+ * (ahí `Content-Length` no corresponde a los bytes descomprimidos).
+ */
+export function trackDownload(
+  response: Response,
+  onProgress: ProgressCallback,
+): Response {
+  if (!response.body || [204, 205, 304].includes(response.status)) {
+    return response;
+  }
+
+  const encoding = response.headers.get("Content-Encoding");
+  const length = Number(response.headers.get("Content-Length") ?? NaN);
+  const total =
+    (!encoding || encoding === "identity") && length >= 0 ? length : undefined;
+
+  const tracked = new Response(trackStream(response.body, total, onProgress), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+  // `url` y `redirected` no se pueden pasar al constructor
+  Object.defineProperty(tracked, "url", { value: response.url });
+  Object.defineProperty(tracked, "redirected", { value: response.redirected });
+  return tracked;
+}
+
+let requestStreamsSupported: boolean | undefined;
+
+/**
+ * Detecta si el runtime admite bodies `ReadableStream` en peticiones (`duplex: "half"`).
+ * Hoy: Chrome/Edge (solo HTTP/2+) y Node 18+. Firefox y Safari no.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported !== undefined) return requestStreamsSupported;
+  try {
+    let duplexAccessed = false;
+    const hasContentType = new Request("http://localhost", {
+      method: "POST",
+      body: new ReadableStream(),
+      get duplex() {
+        duplexAccessed = true;
+        return "half";
+      },
+    } as RequestInit).headers.has("Content-Type");
+    requestStreamsSupported = duplexAccessed && !hasContentType;
+  } catch {
+    requestStreamsSupported = false;
+  }
+  return requestStreamsSupported;
+}
+
+/**
+ * Envía la petición notificando el progreso de subida.
+ * - Si el runtime admite streams en peticiones, el body se envía como stream
+ *   y se notifica a medida que `fetch` lo consume.
+ * - Si no, el body se envía tal cual y se notifica un único evento (100%)
+ *   cuando llega la respuesta.
+ *
+ * Chrome solo admite streams sobre HTTP/2+: contra un servidor HTTP/1.1 `fetch`
+ * falla con `TypeError`. En ese caso se reenvía con el body en memoria.
+ *
+ * @param send Envía el `RequestInit` nativo (el transporte de la instancia).
+ */
+export async function trackUpload(
+  init: RequestInit,
+  onProgress: ProgressCallback,
+  send: (init: RequestInit) => Promise<Response>,
+): Promise<Response> {
+  const body = init.body;
+  if (body == null) return send(init);
+
+  const sendBuffered = async () => {
+    const size = await measureBody(body);
+    const progress = createProgress(size, onProgress);
+    const response = await send(init);
+    progress.complete(size ?? 0);
+    return response;
+  };
+
+  if (!supportsRequestStreams()) return sendBuffered();
+
+  const source = await toUploadStream(body);
+  const headers = new Headers(init.headers);
+  if (source.contentType && !headers.has("Content-Type")) {
+    headers.set("Content-Type", source.contentType);
+  }
+
+  try {
+    return await send({
+      ...init,
+      headers,
+      body: trackStream(source.stream, source.total, onProgress),
+      duplex: "half",
+    } as RequestInit);
+  } catch (error) {
+    // Solo se reenvía si falló el stream y el body no era ya un stream del usuario (consumido)
+    if (
+      !(error instanceof TypeError) ||
+      body instanceof ReadableStream ||
+      init.signal?.aborted
+    ) {
+      throw error;
+    }
+    return sendBuffered();
+  }
+}
+
+/** Convierte cualquier `BodyInit` en stream, con su tamaño y `Content-Type` implícito. */
+async function toUploadStream(body: BodyInit): Promise<{
+  stream: ReadableStream<Uint8Array>;
+  total?: number;
+  contentType?: string | null;
+}> {
+  if (body instanceof ReadableStream) return { stream: body };
+  if (body instanceof Blob) {
+    return {
+      stream: body.stream() as ReadableStream<Uint8Array>,
+      total: body.size,
+      contentType: body.type || undefined,
+    };
+  }
+
+  // String, ArrayBuffer, FormData, URLSearchParams...: `Response` los serializa
+  // y nos da el `Content-Type` que pondría fetch (incluido el boundary de FormData)
+  const serialized = new Response(body);
+  const bytes = new Uint8Array(await serialized.arrayBuffer());
+  let offset = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) return controller.close();
+      controller.enqueue(bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE));
+      offset += UPLOAD_CHUNK_SIZE;
+    },
+  });
+  return {
+    stream,
+    total: bytes.byteLength,
+    contentType: serialized.headers.get("Content-Type"),
+  };
+}
+
+/** Tamaño en bytes de un body (sin consumirlo). `undefined` si es un stream. */
+async function measureBody(body: BodyInit): Promise<number | undefined> {
+  if (body instanceof ReadableStream) return undefined;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer) return body.byteLength;
+  if (ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof body === "string")
+    return new TextEncoder().encode(body).byteLength;
+  return (await new Response(body).blob()).size;
+}
@@ -0,0 +1,173 @@
+/** Valor admitido en `params`: primitivos, fechas, arrays y objetos anidados. */
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/** Query params de una petición. */
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * Formato de los arrays:
+ * - "repeat": `a=1&a=2` (Spring, Go, la mayoría)
+ * - "brackets": `a[]=1&a[]=2` (Rails, PHP)
+ * - "indices": `a[0]=1&a[1]=2`
+ * - "comma": `a=1,2`
+ */
+export type ArrayFormat = "repeat" | "brackets" | "indices" | "comma";
+
+/**
+ * 🔍 **Opciones de serialización de `params`**
+ * @example
+ * paramsSerializer: { arrayFormat: "brackets", skipEmptyStrings: true, sort: true }
+ */
+export interface ParamsSerializerOptions {
+  /** Default: "repeat" */
+  arrayFormat?: ArrayFormat;
+  /**
+   * Objetos anidados:
+   * - "brackets" (Default): `filter[status]=open` (Rails, PHP)
+   * - "dots": `filter.status=open` (Spring)
+   */
+  objectFormat?: "brackets" | "dots";
+  /** Convierte las fechas. Default: `date.toISOString()` */
+  serializeDate?: (date: Date) => string;
+  /** Omite los strings vacíos (`q=`). Default: false (se envían) */
+  skipEmptyStrings?: boolean;
+  /** Ordena las claves (URLs estables para cachés). `true` = orden alfabético. */
+  sort?: boolean | ((a: string, b: string) => number);
+}
+
+/**
+ * Serializador de `params`: opciones o una función propia que devuelve la query
+ * (sin `?`), por ejemplo `(params) => qs.stringify(params)`.
+ */
+export type ParamsSerializer =
+  ParamsSerializerOptions | ((params: QueryParams) => string);
+
+/**
+ * Convierte `params` en un query string (sin `?`).
+ * `undefined` y `null` se omiten siempre.
+ */
+export function serializeParams(
+  params: QueryParams,
+  serializer: ParamsSerializer = {},
+): string {
+  if (typeof serializer === "function") return serializer(params);
+
+  const {
+    arrayFormat = "repeat",
+    objectFormat = "brackets",
+    serializeDate = (date: Date) => date.toISOString(),
+    skipEmptyStrings = false,
+    sort,
+  } = serializer;
+  const compare =
+    typeof sort === "function"
+      ? sort
+      : sort
+        ? (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0)
+        : undefined;
+
+  const pairs: string[] = [];
+  const encode = encodeURIComponent;
+
+  const primitive = (value: QueryValue): string | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const text = value instanceof Date ? serializeDate(value) : String(value);
+    return skipEmptyStrings && text === "" ? undefined : text;
+  };
+
+  const keys = (object: object) => {
+    const list = Object.keys(object);
+    return compare ? list.sort(compare) : list;
+  };
+
+  const add = (key: string, value: QueryValue) => {
+    if (Array.isArray(value)) {
+      if (arrayFormat === "comma") {
+        const items = value
+          .map(primitive)
+          .filter((item): item is string => item !== undefined);
+        if (items.length) pairs.push(`${key}=${items.map(encode).join(",")}`);
+        return;
+      }
+      value.forEach((item, index) => {
+        const itemKey =
+          arrayFormat === "brackets"
+            ? `${key}[]`
+            : arrayFormat === "indices"
+              ? `${key}[${index}]`
+              : key;
+        add(itemKey, item);
+      });
+      return;
+    }
+
+    if (
+      value !== null &&
+      typeof value === "object" &&
+      !(value instanceof Date)
+    ) {
+      for (const child of keys(value)) {
+        add(
+          objectFormat === "dots"
+            ? `${key}.${encode(child)}`
+            : `${key}[${encode(child)}]`,
+          value[child],
+        );
+      }
+      return;
+    }
+
+    const text = primitive(value);
+    if (text !== undefined) pairs.push(`${key}=${encode(text)}`);
+  };
+
+  for (const key of keys(params)) add(encode(key), params[key]);
+  return pairs.join("&");
+}
+
+/** Añade la query a la URL respetando la query y el `#hash` que ya tenga. */
+export function appendQuery(url: string, query: string): string {
+  if (!query) return url;
+  const hashIndex = url.indexOf("#");
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const separator = !base.includes("?")
+    ? "?"
+    : base.endsWith("?") || base.endsWith("&")
+      ? ""
+      : "&";
+  return `${base}${separator}${query}${hash}`;
+}
+
+/**
+ * Origin de una URL (`https://api.test`). Es la clave por defecto de la cola por origin,
+ * el circuit breaker y el rate limit. `""` si la URL no es absoluta.
+ */
+export function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Combina el serializador global con el de la petición.
+ * Dos objetos se fusionan (la petición gana); una función sustituye al otro.
+ */
+export function mergeParamsSerializers(
+  global?: ParamsSerializer,
+  local?: ParamsSerializer,
+): ParamsSerializer | undefined {
+  if (!local) return global;
+  if (typeof local === "function" || typeof global !== "object") return local;
+  return { ...global, ...local };
+}
@@ -0,0 +1,185 @@
+import { QueueTimeoutError } from "./errors";
+import type { Middleware, MiddlewareContext } from "./middleware";
+import { getOrigin } from "./query";
+
+/** ⚙️ Límites de concurrencia de una instancia. */
+export interface QueueOptions {
+  /** Máximo de peticiones en vuelo en toda la instancia. Default: sin límite */
+  maxConcurrent?: number;
+  /** Máximo de peticiones en vuelo por origin (protocolo + host + puerto). Default: sin límite */
+  maxConcurrentPerOrigin?: number;
+}
+
+/** 📊 Estado de la cola de una instancia (`api.queue`). */
+export interface QueueStats {
+  /** Peticiones esperando turno. */
+  readonly size: number;
+  /** Peticiones en vuelo. */
+  readonly pending: number;
+  /** Resuelve cuando no queda nada en vuelo ni en espera. */
+  onIdle(): Promise<void>;
+}
+
+interface Waiter {
+  origin: string;
+  priority: number;
+  seq: number;
+  start: () => void;
+}
+
+/**
+ * Cola de prioridad con límite de concurrencia global y por origin.
+ * El middleware (scope "attempt") ocupa un hueco desde que el intento sale
+ * hasta que llegan los headers de la respuesta (o falla).
+ *
+ * @param getOptions Devuelve la configuración global vigente.
+ */
+export function createRequestQueue(getOptions: () => QueueOptions) {
+  const waiting: Waiter[] = [];
+  const perOrigin = new Map<string, number>();
+  let running = 0;
+  let seq = 0;
+  let idleResolvers: (() => void)[] = [];
+
+  const canRun = (origin: string) => {
+    const { maxConcurrent, maxConcurrentPerOrigin } = getOptions();
+    if (maxConcurrent !== undefined && running >= maxConcurrent) return false;
+    if (
+      maxConcurrentPerOrigin !== undefined &&
+      (perOrigin.get(origin) ?? 0) >= maxConcurrentPerOrigin
+    )
+      return false;
+    return true;
+  };
+
+  const acquire = (origin: string) => {
+    running++;
+    perOrigin.set(origin, (perOrigin.get(origin) ?? 0) + 1);
+  };
+
+  const release = (origin: string) => {
+    running--;
+    const count = (perOrigin.get(origin) ?? 1) - 1;
+    if (count > 0) perOrigin.set(origin, count);
+    else perOrigin.delete(origin);
+    drain();
+  };
+
+  /** Arranca, por orden de prioridad, todas las peticiones que quepan. */
+  const drain = () => {
+    for (let i = 0; i < waiting.length;) {
+      const waiter = waiting[i];
+      if (canRun(waiter.origin)) {
+        waiting.splice(i, 1);
+        waiter.start();
+      } else {
+        i++;
+      }
+    }
+    if (running === 0 && waiting.length === 0) {
+      const resolvers = idleResolvers;
+      idleResolvers = [];
+      resolvers.forEach((resolve) => resolve());
+    }
+  };
+
+  const enqueue = (waiter: Waiter) => {
+    // Mayor prioridad primero; a igual prioridad, orden de llegada
+    const index = waiting.findIndex(
+      (w) =>
+        w.priority < waiter.priority ||
+        (w.priority === waiter.priority && w.seq > waiter.seq),
+    );
+    if (index === -1) waiting.push(waiter);
+    else waiting.splice(index, 0, waiter);
+  };
+
+  /** Espera turno. Se cancela con el `signal` del intento o con `queueTimeout`. */
+  const wait = (ctx: MiddlewareContext, origin: string): Promise<void> => {
+    if (canRun(origin)) {
+      acquire(origin);
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const { queueTimeout } = ctx.init;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const leave = (error: unknown) => {
+        const index = waiting.indexOf(waiter);
+        if (index !== -1) waiting.splice(index, 1);
+        cleanup();
+        reject(error);
+        drain();
+      };
+      const onAbort = () => {
+        const error = new Error("Request aborted while queued");
+        error.name = "AbortError";
+        leave(error);
+      };
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        ctx.signal?.removeEventListener("abort", onAbort);
+      };
+
+      const waiter: Waiter = {
+        origin,
+        priority: toQueuePriority(ctx.init.priority),
+        seq: seq++,
+        start: () => {
+          cleanup();
+          acquire(origin);
+          resolve();
+        },
+      };
+
+      if (ctx.signal?.aborted) return onAbort();
+      ctx.signal?.addEventListener("abort", onAbort, { once: true });
+      if (queueTimeout !== undefined) {
+        timer = setTimeout(
+          () =>
+            leave(
+              new QueueTimeoutError(queueTimeout, {
+                url: ctx.url,
+                method: ctx.init.method,
+                attempts: ctx.attempt,
+              }),
+            ),
+          queueTimeout,
+        );
+      }
+      enqueue(waiter);
+    });
+  };
+
+  const middleware: Middleware = async (ctx, next) => {
+    const origin = getOrigin(ctx.url);
+    await wait(ctx, origin);
+    try {
+      return await next();
+    } finally {
+      release(origin);
+    }
+  };
+
+  const stats: QueueStats = {
+    get size() {
+      return waiting.length;
+    },
+    get pending() {
+      return running;
+    },
+    onIdle() {
+      if (running === 0 && waiting.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idleResolvers.push(resolve));
+    },
+  };
+
+  return { middleware, stats };
+}
+
+function toQueuePriority(priority: number | RequestPriority | undefined) {
+  if (priority === "high") return 1;
+  if (priority === "low") return -1;
+  return typeof priority === "number" ? priority : 0;
+}
@@ -0,0 +1,309 @@
+import { RateLimitError } from "./errors";
+import type { Middleware, MiddlewareContext } from "./middleware";
+import { getOrigin } from "./query";
+import { parseRetryAfter } from "./retry";
+
+/**
+ * 🪣 **Rate limit (token bucket)**
+ * Cada intento (reintentos incluidos) consume un token; los tokens se recargan
+ * a `limit` por `interval`. El bucket también se ajusta con los headers del servidor.
+ *
+ * @example
+ * rateLimit: { limit: 10, interval: 1000, burst: 20 } // 10 req/s, ráfagas de hasta 20
+ */
+export interface RateLimitOptions {
+  /** Peticiones permitidas por `interval`. */
+  limit: number;
+  /** Intervalo en ms. Default: 1000 */
+  interval?: number;
+  /** Capacidad del bucket (ráfaga máxima). Default: `limit` */
+  burst?: number;
+  /** Agrupa las peticiones en buckets. Default: origin de la URL */
+  key?: (url: string, method: string) => string;
+  /**
+   * Qué hacer sin tokens:
+   * - "delay" (Default): esperar turno (en orden de llegada).
+   * - "reject": lanzar `RateLimitError` al instante.
+   */
+  strategy?: "delay" | "reject";
+  /**
+   * En modo "delay", espera máxima (ms). Si se superaría, lanza `RateLimitError`.
+   * Es un plazo propio, aparte del `timeout` del intento: también corta la espera
+   * si el servidor alarga la pausa mientras tanto.
+   */
+  maxWait?: number;
+  /**
+   * Ajusta el bucket con `RateLimit-Remaining` / `RateLimit-Reset`, `X-RateLimit-*`
+   * y `Retry-After` (en 429). Default: true
+   */
+  serverHeaders?: boolean;
+}
+
+/** 📊 Estado de un bucket (`api.rateLimits.get(key)`). */
+export interface RateLimitSnapshot {
+  /** Tokens disponibles ahora mismo. */
+  tokens: number;
+  /** Capacidad del bucket (`burst`). */
+  capacity: number;
+  /** Peticiones esperando un token. */
+  queued: number;
+  /** Momento (ms) hasta el que el servidor pidió pausar, si aplica. */
+  pausedUntil?: number;
+  /** Último `RateLimit-Remaining` recibido del servidor. */
+  serverRemaining?: number;
+}
+
+/** Acceso a los buckets de una instancia (`api.rateLimits`). */
+export interface RateLimitRegistry {
+  get(key: string): RateLimitSnapshot | undefined;
+  keys(): string[];
+}
+
+interface Waiter {
+  start: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number;
+  serverRemaining?: number;
+  waiters: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Crea el limitador (middleware de scope "attempt", delante de la cola de concurrencia).
+ * @param getOptions Devuelve la configuración global vigente.
+ */
+export function createRateLimiter(
+  getOptions: () => RateLimitOptions | undefined,
+) {
+  const buckets = new Map<string, Bucket>();
+
+  const settings = (options: RateLimitOptions) => {
+    const interval = options.interval ?? 1000;
+    return {
+      capacity: Math.max(1, options.burst ?? options.limit),
+      msPerToken: interval / Math.max(options.limit, Number.MIN_VALUE),
+    };
+  };
+
+  const refill = (bucket: Bucket, options: RateLimitOptions) => {
+    const { capacity, msPerToken } = settings(options);
+    const now = Date.now();
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (now - bucket.updatedAt) / msPerToken,
+    );
+    bucket.updatedAt = now;
+  };
+
+  /** Tiempo (ms) hasta que haya un token para el primero de la fila. */
+  const waitTime = (
+    bucket: Bucket,
+    options: RateLimitOptions,
+    position = 0,
+  ) => {
+    const { msPerToken } = settings(options);
+    const paused = Math.max(0, bucket.pausedUntil - Date.now());
+    const missing = Math.max(0, position + 1 - bucket.tokens);
+    return Math.max(paused, missing * msPerToken);
+  };
+
+  const drain = (bucket: Bucket) => {
+    const options = getOptions();
+    if (!options) {
+      // Se desactivó el rate limit: dejamos pasar a todos
+      bucket.waiters.splice(0).forEach((w) => w.start());
+      return;
+    }
+    refill(bucket, options);
+    while (
+      bucket.waiters.length &&
+      Date.now() >= bucket.pausedUntil &&
+      bucket.tokens >= 1
+    ) {
+      bucket.tokens--;
+      bucket.waiters.shift()!.start();
+    }
+    schedule(bucket, options);
+  };
+
+  const schedule = (bucket: Bucket, options: RateLimitOptions) => {
+    if (bucket.timer) clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+    if (!bucket.waiters.length) return;
+    bucket.timer = setTimeout(
+      () => {
+        bucket.timer = undefined;
+        drain(bucket);
+      },
+      Math.ceil(waitTime(bucket, options)),
+    );
+  };
+
+  const take = (
+    ctx: MiddlewareContext,
+    key: string,
+    bucket: Bucket,
+    options: RateLimitOptions,
+  ): Promise<void> | void => {
+    refill(bucket, options);
+    if (
+      !bucket.waiters.length &&
+      Date.now() >= bucket.pausedUntil &&
+      bucket.tokens >= 1
+    ) {
+      bucket.tokens--;
+      return;
+    }
+
+    const wait = waitTime(bucket, options, bucket.waiters.length);
+    const errorInfo = {
+      url: ctx.url,
+      method: ctx.init.method,
+      attempts: ctx.attempt,
+    };
+    if (
+      options.strategy === "reject" ||
+      (options.maxWait !== undefined && wait > options.maxWait)
+    ) {
+      throw new RateLimitError(key, Math.ceil(wait), errorInfo);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let deadline: ReturnType<typeof setTimeout> | undefined;
+      const leave = (error: Error) => {
+        clearTimeout(deadline);
+        ctx.signal?.removeEventListener("abort", onAbort);
+        const index = bucket.waiters.indexOf(waiter);
+        if (index !== -1) bucket.waiters.splice(index, 1);
+        reject(error);
+        drain(bucket);
+      };
+      const onAbort = () => {
+        const error = new Error("Request aborted while rate limited");
+        error.name = "AbortError";
+        leave(error);
+      };
+      const waiter: Waiter = {
+        start: () => {
+          clearTimeout(deadline);
+          ctx.signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+
+      if (ctx.signal?.aborted) return onAbort();
+      ctx.signal?.addEventListener("abort", onAbort, { once: true });
+      bucket.waiters.push(waiter);
+      if (!bucket.timer) schedule(bucket, options);
+      // `maxWait` es el plazo de la espera (aparte del `timeout` del intento):
+      // también vale si el servidor alarga la pausa mientras esperamos
+      if (options.maxWait !== undefined) {
+        deadline = setTimeout(() => {
+          const position = bucket.waiters.indexOf(waiter);
+          const retryAfter = Math.ceil(waitTime(bucket, options, position));
+          leave(new RateLimitError(key, retryAfter, errorInfo));
+        }, options.maxWait);
+      }
+    });
+  };
+
+  /** Ajusta el bucket con lo que dice el servidor. */
+  const observe = (
+    bucket: Bucket,
+    options: RateLimitOptions,
+    response: Response,
+  ) => {
+    const headers = response.headers;
+    const header = (name: string) =>
+      headers.get(`RateLimit-${name}`) ?? headers.get(`X-RateLimit-${name}`);
+    const now = Date.now();
+
+    const remaining = Number(header("Remaining") ?? NaN);
+    const resetMs = parseReset(header("Reset"), now);
+    let pause: number | undefined;
+
+    if (response.status === 429) {
+      pause =
+        parseRetryAfter(headers.get("Retry-After"), now) ??
+        resetMs ??
+        options.interval ??
+        1000;
+    } else if (!Number.isNaN(remaining)) {
+      bucket.serverRemaining = remaining;
+      refill(bucket, options);
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+      if (remaining <= 0 && resetMs !== undefined) pause = resetMs;
+    }
+
+    if (pause !== undefined) {
+      bucket.tokens = 0;
+      bucket.updatedAt = now;
+      bucket.pausedUntil = Math.max(bucket.pausedUntil, now + pause);
+      schedule(bucket, options);
+    }
+  };
+
+  const getBucket = (key: string, options: RateLimitOptions) => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: settings(options).capacity,
+        updatedAt: Date.now(),
+        pausedUntil: 0,
+        waiters: [],
+      };
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  const middleware: Middleware = async (ctx, next) => {
+    const options = getOptions();
+    if (!options || ctx.init.rateLimit === false) return next();
+
+    const method = ctx.init.method ?? "GET";
+    const key = options.key ? options.key(ctx.url, method) : getOrigin(ctx.url);
+    const bucket = getBucket(key, options);
+    await take(ctx, key, bucket, options);
+
+    const response = await next();
+    if (options.serverHeaders !== false) observe(bucket, options, response);
+    return response;
+  };
+
+  const registry: RateLimitRegistry = {
+    get(key) {
+      const bucket = buckets.get(key);
+      const options = getOptions();
+      if (!bucket || !options) return undefined;
+      refill(bucket, options);
+      return {
+        tokens: Math.floor(bucket.tokens),
+        capacity: settings(options).capacity,
+        queued: bucket.waiters.length,
+        pausedUntil:
+          bucket.pausedUntil > Date.now() ? bucket.pausedUntil : undefined,
+        serverRemaining: bucket.serverRemaining,
+      };
+    },
+    keys: () => [...buckets.keys()],
+  };
+
+  return { middleware, registry };
+}
+
+/**
+ * `RateLimit-Reset` son segundos hasta el reinicio; muchos `X-RateLimit-Reset`
+ * usan un timestamp Unix. Un valor enorme se interpreta como timestamp.
+ */
+function parseReset(value: string | null, now: number): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isNaN(seconds)) return parseRetryAfter(value, now);
+  if (seconds > 1e9) return Math.max(0, seconds * 1000 - now);
+  return Math.max(0, seconds * 1000);
+}
@@ -0,0 +1,211 @@
+import type { SafeFetchError } from "./errors";
+import { NetworkError, QueueTimeoutError, TimeoutError } from "./errors";
+import type { HttpMethod } from "./index";
+
+/** Información disponible al decidir (o notificar) un reintento. */
+export interface RetryContext {
+  /** Intento que acaba de fallar (1 = primer intento). */
+  attempt: number;
+  /** URL final de la petición. */
+  url: string;
+  method: string;
+  /** Error del intento (red, timeout...). Ausente si hubo respuesta HTTP. */
+  error?: SafeFetchError;
+  /** Respuesta HTTP del intento. Ausente si falló a nivel de red. */
+  response?: Response;
+  /** Decisión que tomaría la política por defecto (métodos + status + tipo de error). */
+  retryable: boolean;
+}
+
+/**
+ * 🔄 **Política de Reintentos**
+ * Define cuándo y cada cuánto se reintenta una petición fallida.
+ *
+ * @example
+ * retry: {
+ *   limit: 3,
+ *   backoff: "exponential",
+ *   jitter: "full",
+ *   onRetry: ({ attempt, delay }) => console.log(`Reintento ${attempt} en ${delay}ms`),
+ * }
+ */
+export interface RetryPolicy {
+  /** Número máximo de reintentos. Default: 0 */
+  limit?: number;
+  /** Espera base entre reintentos (ms). Default: 1000 */
+  delay?: number;
+  /**
+   * Estrategia de espera:
+   * - "fixed" (Default): siempre `delay`.
+   * - "linear": `delay * intento`.
+   * - "exponential": `delay * factor ^ (intento - 1)`.
+   */
+  backoff?: "fixed" | "linear" | "exponential";
+  /** Multiplicador del backoff exponencial. Default: 2 */
+  factor?: number;
+  /** Espera máxima entre reintentos (ms). Default: 30000 */
+  maxDelay?: number;
+  /**
+   * Aleatoriedad para evitar que todos los clientes reintenten a la vez:
+   * - "none" (Default)
+   * - "full": entre 0 y la espera calculada.
+   * - "equal": la mitad fija + la otra mitad aleatoria.
+   */
+  jitter?: "none" | "full" | "equal";
+  /** Métodos que se pueden reintentar. Default: solo los idempotentes. */
+  methods?: HttpMethod[];
+  /** Status HTTP que se reintentan. Default: 408, 425, 429, 500, 502, 503, 504 */
+  statusCodes?: number[];
+  /**
+   * Si es true (default), respeta el header `Retry-After` de la respuesta.
+   * Si pide esperar más que `maxDelay`, no se reintenta.
+   */
+  retryAfter?: boolean;
+  /**
+   * Predicado final (puede ser async). Si existe, su resultado decide el reintento;
+   * `ctx.retryable` contiene lo que habría decidido la política por defecto.
+   */
+  shouldRetry?: (ctx: RetryContext) => boolean | Promise<boolean>;
+  /** Se ejecuta justo antes de esperar para el siguiente intento. */
+  onRetry?: (ctx: RetryContext & { delay: number }) => void | Promise<void>;
+}
+
+export const DEFAULT_RETRY_METHODS: HttpMethod[] = [
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "DELETE",
+  "TRACE",
+];
+
+export const DEFAULT_RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+type ResolvedRetryPolicy = Required<
+  Omit<RetryPolicy, "shouldRetry" | "onRetry">
+> &
+  Pick<RetryPolicy, "shouldRetry" | "onRetry">;
+
+/**
+ * Combina las políticas (de menor a mayor prioridad) y rellena los defaults.
+ */
+export function resolveRetryPolicy(
+  ...policies: (RetryPolicy | undefined)[]
+): ResolvedRetryPolicy {
+  // Un `undefined` (ej: `retries` sin indicar) no pisa el valor de la política anterior
+  const merged: RetryPolicy = Object.assign(
+    {},
+    ...policies.filter(Boolean).map((policy) => stripUndefined(policy!)),
+  );
+  return {
+    limit: 0,
+    delay: 1000,
+    backoff: "fixed",
+    factor: 2,
+    maxDelay: 30000,
+    jitter: "none",
+    methods: DEFAULT_RETRY_METHODS,
+    statusCodes: DEFAULT_RETRY_STATUS_CODES,
+    retryAfter: true,
+    ...merged,
+  };
+}
+
+/**
+ * Decide si el intento fallido se reintenta y cuánto esperar.
+ * @returns La espera en ms, o `undefined` si no se debe reintentar.
+ */
+export async function planRetry(
+  policy: ResolvedRetryPolicy,
+  ctx: Omit<RetryContext, "retryable">,
+): Promise<number | undefined> {
+  if (ctx.attempt > policy.limit) return undefined;
+
+  const methodAllowed = policy.methods.some(
+    (m) => m.toUpperCase() === ctx.method.toUpperCase(),
+  );
+  const retryable =
+    methodAllowed &&
+    (ctx.response
+      ? policy.statusCodes.includes(ctx.response.status)
+      : ctx.error instanceof NetworkError ||
+        (ctx.error instanceof TimeoutError &&
+          !(ctx.error instanceof QueueTimeoutError)));
+
+  const shouldRetry = policy.shouldRetry
+    ? await policy.shouldRetry({ ...ctx, retryable })
+    : retryable;
+  if (!shouldRetry) return undefined;
+
+  const retryAfter =
+    policy.retryAfter && ctx.response
+      ? parseRetryAfter(ctx.response.headers.get("Retry-After"))
+      : undefined;
+
+  let delay: number;
+  if (retryAfter !== undefined) {
+    if (retryAfter > policy.maxDelay) return undefined;
+    delay = retryAfter;
+  } else {
+    delay = computeBackoff(policy, ctx.attempt);
+  }
+
+  if (policy.onRetry) await policy.onRetry({ ...ctx, retryable, delay });
+  return delay;
+}
+
+/** Calcula la espera según backoff + jitter, limitada por `maxDelay`. */
+export function computeBackoff(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+): number {
+  let delay = policy.delay;
+  if (policy.backoff === "linear") delay = policy.delay * attempt;
+  if (policy.backoff === "exponential")
+    delay = policy.delay * Math.pow(policy.factor, attempt - 1);
+
+  delay = Math.min(delay, policy.maxDelay);
+
+  if (policy.jitter === "full") return Math.round(Math.random() * delay);
+  if (policy.jitter === "equal")
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  return delay;
+}
+
+/**
+ * Interpreta `Retry-After` (segundos o fecha HTTP).
+ * @returns La espera en ms, o `undefined` si el header no existe o es inválido.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** Espera `ms` milisegundos. Termina antes si el `signal` se aborta. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined),
+  ) as Partial<T>;
+}
@@ -0,0 +1,74 @@
+import { ValidationError } from "./errors";
+import type { SafeFetchErrorOptions } from "./errors";
+
+/**
+ * 📐 **Standard Schema V1**
+ * Interfaz común implementada por zod, valibot, arktype y otros validadores.
+ * Copiada de la especificación (https://standardschema.dev) para no depender de ningún paquete.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * Valida `value` con un Standard Schema.
+ * @returns El valor de salida del schema (con transformaciones aplicadas).
+ * @throws {ValidationError} Si el schema reporta issues.
+ */
+export async function validateSchema<S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown,
+  target: "request" | "response",
+  body: unknown,
+  options: SafeFetchErrorOptions = {},
+): Promise<StandardSchemaV1.InferOutput<S>> {
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) {
+    throw new ValidationError(result.issues, target, body, options);
+  }
+  return result.value;
+}
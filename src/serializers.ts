@@ -0,0 +1,133 @@
+import { SafeFetchError } from "./errors";
+import type { ContentType } from "./index";
+import { serializeParams } from "./query";
+import type { QueryParams } from "./query";
+
+/**
+ * Convierte un body (objeto o array) al formato de su `Content-Type`.
+ * Si devuelve un `FormData`, se quita el `Content-Type` para que `fetch` ponga el boundary.
+ */
+export type BodySerializer = (body: any) => BodyInit | Promise<BodyInit>;
+
+/**
+ * 🧾 **Serializadores por `Content-Type`**
+ * Se combinan con los de serie (JSON, form-urlencoded, multipart y NDJSON).
+ * @example
+ * import YAML from "yaml";
+ * serializers: {
+ *   "application/yaml": (body) => YAML.stringify(body),
+ *   "application/xml": (body) => new XMLBuilder().build(body),
+ * }
+ */
+export type BodySerializers = Partial<Record<ContentType, BodySerializer>>;
+
+/** Serializadores de serie. */
+export const defaultSerializers: Record<string, BodySerializer> = {
+  "application/json": (body) => JSON.stringify(body),
+  // Claves anidadas como en la query: `user[name]=Ada&tags=a&tags=b`
+  "application/x-www-form-urlencoded": (body: QueryParams) =>
+    serializeParams(body),
+  "multipart/form-data": (body) => toFormData(body),
+  "application/x-ndjson": (body: unknown[]) =>
+    (Array.isArray(body) ? body : [body])
+      .map((item) => `${JSON.stringify(item)}\n`)
+      .join(""),
+};
+
+/** Bodies que `fetch` ya sabe enviar tal cual. */
+export function isNativeBody(body: unknown): boolean {
+  return (
+    typeof body === "string" ||
+    (typeof FormData !== "undefined" && body instanceof FormData) ||
+    (typeof Blob !== "undefined" && body instanceof Blob) ||
+    (typeof ArrayBuffer !== "undefined" &&
+      (body instanceof ArrayBuffer || ArrayBuffer.isView(body))) ||
+    (typeof URLSearchParams !== "undefined" &&
+      body instanceof URLSearchParams) ||
+    (typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+  );
+}
+
+/** ¿Hay algún `Blob` / `File` dentro del objeto? (entonces va como multipart) */
+export function containsBlob(value: unknown): boolean {
+  if (typeof Blob !== "undefined" && value instanceof Blob) return true;
+  if (value === null || typeof value !== "object" || value instanceof Date) {
+    return false;
+  }
+  return Object.values(value).some(containsBlob);
+}
+
+/**
+ * `Content-Type` por defecto de los métodos con body: JSON, salvo para bodies
+ * nativos (FormData, Blob...) y objetos con ficheros, que lo deciden al serializar.
+ */
+export function defaultContentType(body: unknown): ContentType | undefined {
+  if (typeof body === "string") return "application/json";
+  if (isNativeBody(body) || containsBlob(body)) return undefined;
+  return "application/json";
+}
+
+/**
+ * Serializa un objeto o array según su `Content-Type`
+ * (o multipart / JSON si no se indicó).
+ *
+ * @returns El body listo para `fetch` y el `Content-Type` a enviar
+ * (`undefined` si lo debe poner `fetch`, como en multipart).
+ * @throws {SafeFetchError} Si no hay serializador para ese `Content-Type`.
+ */
+export async function serializeBody(
+  body: object,
+  contentType: string | undefined,
+  serializers: BodySerializers | undefined,
+  info: { url: string; method: string },
+): Promise<{ body: BodyInit; contentType?: string }> {
+  const type =
+    contentType ??
+    (containsBlob(body) ? "multipart/form-data" : "application/json");
+  const mediaType = type.split(";")[0].trim().toLowerCase();
+  const registry: Record<string, BodySerializer | undefined> = {
+    ...defaultSerializers,
+    ...serializers,
+  };
+  // `application/vnd.api+json`, `application/merge-patch+json`...
+  const serializer =
+    registry[mediaType] ??
+    (mediaType.endsWith("+json") ? registry["application/json"] : undefined);
+
+  if (!serializer) {
+    throw new SafeFetchError(
+      `No serializer for Content-Type "${mediaType}", register one in \`serializers\``,
+      info,
+    );
+  }
+
+  const serialized = await serializer(body);
+  const isFormData =
+    typeof FormData !== "undefined" && serialized instanceof FormData;
+  return { body: serialized, contentType: isFormData ? undefined : type };
+}
+
+/**
+ * Convierte un objeto en `FormData`: los ficheros van como partes binarias,
+ * los objetos anidados como `user[name]` y los arrays repiten la clave.
+ */
+export function toFormData(value: Record<string, unknown>): FormData {
+  const form = new FormData();
+
+  const append = (key: string, item: unknown) => {
+    if (item === undefined || item === null) return;
+    if (item instanceof Blob) return form.append(key, item);
+    if (item instanceof Date) return form.append(key, item.toISOString());
+    if (Array.isArray(item)) return item.forEach((v) => append(key, v));
+    if (typeof item === "object") {
+      for (const [child, v] of Object.entries(item)) {
+        append(`${key}[${child}]`, v);
+      }
+      return;
+    }
+    form.append(key, String(item));
+  };
+
+  for (const [key, item] of Object.entries(value)) append(key, item);
+  return form;
+}
@@ -0,0 +1,140 @@
+import { NetworkError, QueueTimeoutError, TimeoutError } from "./errors";
+import { sleep } from "./retry";
+import { readLines } from "./stream";
+
+/** 📡 Evento recibido de un stream `text/event-stream`. */
+export interface ServerSentEvent<T = string> {
+  /** Tipo de evento (campo `event`). Default: "message" */
+  event: string;
+  /** Contenido del evento (líneas `data` unidas con `\n`), parseado si `sse.json` es true. */
+  data: T;
+  /** Último id recibido (campo `id`). Se reenvía como `Last-Event-ID` al reconectar. */
+  id: string;
+  /** Tiempo de reconexión (ms), si este evento lo indicó con el campo `retry`. */
+  retry?: number;
+}
+
+/** ⚙️ Opciones de `responseType: "sse"`. */
+export interface SSEOptions {
+  /** Si es true, parsea `data` como JSON (lanza `ParseError` si no es válido). Default: false */
+  json?: boolean;
+  /**
+   * Reconectar cuando el servidor cierra la conexión o se corta la red,
+   * enviando `Last-Event-ID`. `true` = sin límite, número = máximo de reconexiones seguidas sin recibir eventos.
+   * Default: false
+   */
+  reconnect?: boolean | number;
+  /** Espera (ms) antes de reconectar, salvo que el servidor envíe `retry`. Default: 3000 */
+  retryDelay?: number;
+}
+
+/** Una conexión abierta: la respuesta, su body en chunks y cómo transformar `data`. */
+export interface EventStreamConnection {
+  response: Response;
+  chunks: AsyncIterable<Uint8Array>;
+  /** Parseo / validación de `data` (JSON, schema). */
+  parse?: (data: string) => unknown;
+}
+
+interface ParserState {
+  lastEventId: string;
+  retry: number;
+}
+
+/**
+ * Parser incremental de `text/event-stream` según la especificación de WHATWG.
+ * Emite un evento por cada bloque terminado en línea vacía que tenga `data`.
+ */
+async function* parseEvents(
+  lines: AsyncIterable<string>,
+  state: ParserState,
+): AsyncGenerator<ServerSentEvent> {
+  let data: string[] = [];
+  let event = "";
+  let retry: number | undefined;
+
+  for await (const line of lines) {
+    if (line === "") {
+      if (data.length > 0) {
+        yield {
+          event: event || "message",
+          data: data.join("\n"),
+          id: state.lastEventId,
+          ...(retry !== undefined ? { retry } : {}),
+        };
+      }
+      data = [];
+      event = "";
+      retry = undefined;
+      continue;
+    }
+    if (line.startsWith(":")) continue; // Comentario (keep-alive)
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "data") data.push(value);
+    else if (field === "event") event = value;
+    else if (field === "id" && !value.includes("\0")) state.lastEventId = value;
+    else if (field === "retry" && /^\d+$/.test(value)) {
+      retry = Number(value);
+      state.retry = retry;
+    }
+  }
+}
+
+/**
+ * Itera los eventos de un stream SSE y, si está activado, reconecta con `Last-Event-ID`.
+ *
+ * @param first Conexión inicial (ya abierta y validada).
+ * @param connect Abre una nueva conexión enviando el último id recibido.
+ * @param options Opciones SSE, `signal` para dejar de reconectar (usuario + `abortAll`)
+ * y `onClose`, que se llama al terminar el stream.
+ */
+export async function* eventStream(
+  first: EventStreamConnection,
+  connect: (lastEventId: string) => Promise<EventStreamConnection>,
+  options: SSEOptions & { signal?: AbortSignal | null; onClose?: () => void },
+): AsyncGenerator<ServerSentEvent<unknown>> {
+  const state: ParserState = {
+    lastEventId: "",
+    retry: options.retryDelay ?? 3000,
+  };
+  const maxReconnects =
+    options.reconnect === true ? Infinity : Number(options.reconnect || 0);
+
+  let connection: EventStreamConnection | undefined = first;
+  let reconnects = 0;
+
+  try {
+    while (true) {
+      try {
+        connection ??= await connect(state.lastEventId);
+        // 204 No Content: el servidor pide no volver a conectar
+        if (connection.response.status === 204) return;
+
+        const { chunks, parse } = connection;
+        for await (const event of parseEvents(readLines(chunks), state)) {
+          reconnects = 0;
+          yield parse ? { ...event, data: await parse(event.data) } : event;
+        }
+      } catch (error) {
+        const recoverable =
+          error instanceof NetworkError ||
+          (error instanceof TimeoutError &&
+            !(error instanceof QueueTimeoutError));
+        if (!recoverable || reconnects >= maxReconnects) throw error;
+      }
+
+      if (reconnects >= maxReconnects || options.signal?.aborted) return;
+      reconnects++;
+      connection = undefined;
+      await sleep(state.retry, options.signal ?? undefined);
+      if (options.signal?.aborted) return;
+    }
+  } finally {
+    options.onClose?.();
+  }
+}
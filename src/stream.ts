@@ -0,0 +1,155 @@
+import { AbortError, NetworkError, TimeoutError } from "./errors";
+import type { SafeFetchErrorOptions } from "./errors";
+
+/** Opciones para leer el body de una respuesta en streaming. */
+export interface ChunkReadOptions {
+  /** Cancela la lectura (signal del usuario + abortAll). */
+  signal?: AbortSignal;
+  /** Signal del usuario, para distinguir `AbortError("user")` de `"abortAll"`. */
+  userSignal?: AbortSignal | null;
+  /** Tiempo máximo (ms) sin recibir datos. Si se supera, lanza `TimeoutError`. */
+  timeout?: number;
+  /** Contexto para los errores lanzados. */
+  info: SafeFetchErrorOptions;
+  /** Se ejecuta una vez al terminar: fin del body, error o `break` del consumidor. */
+  onClose?: () => void;
+}
+
+/**
+ * Lee el body de una respuesta chunk a chunk.
+ * Si el consumidor sale del `for await` (break/return/throw), cancela el stream subyacente.
+ */
+export async function* readChunks(
+  response: Response,
+  options: ChunkReadOptions,
+): AsyncGenerator<Uint8Array> {
+  try {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await readWithin(reader, options);
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  } finally {
+    options.onClose?.();
+  }
+}
+
+/** Espera el siguiente chunk respetando el `signal` y el timeout de inactividad. */
+function readWithin(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  { signal, userSignal, timeout, info }: ChunkReadOptions,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  const abortError = () =>
+    new AbortError(userSignal?.aborted ? "user" : "abortAll", info);
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (timeout) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new TimeoutError(timeout, info));
+      }, timeout);
+    }
+
+    reader.read().then(
+      (result) => {
+        cleanup();
+        resolve(result);
+      },
+      (error) => {
+        cleanup();
+        reject(
+          signal?.aborted
+            ? abortError()
+            : new NetworkError({ ...info, cause: error }),
+        );
+      },
+    );
+  });
+}
+
+interface LineState {
+  text: string;
+  /** El último salto fue `\r`: un `\n` inmediato pertenece al mismo salto. */
+  afterCR: boolean;
+}
+
+const LF = 10;
+const CR = 13;
+
+/**
+ * Decodifica los chunks como UTF-8 y los separa en líneas (`\n`, `\r\n` o `\r`).
+ * Los caracteres multibyte partidos entre dos chunks se reconstruyen correctamente.
+ * La última línea se emite aunque no termine en salto de línea.
+ */
+export async function* readLines(
+  chunks: AsyncIterable<Uint8Array>,
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  const state: LineState = { text: "", afterCR: false };
+
+  for await (const chunk of chunks) {
+    state.text += decoder.decode(chunk, { stream: true });
+    yield* takeLines(state);
+  }
+
+  state.text += decoder.decode();
+  yield* takeLines(state);
+  if (state.text) yield state.text;
+}
+
+function* takeLines(state: LineState): Generator<string> {
+  const { text } = state;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === LF && state.afterCR && i === start) {
+      start = i + 1;
+      state.afterCR = false;
+      continue;
+    }
+    state.afterCR = false;
+    if (code !== LF && code !== CR) continue;
+
+    const line = text.slice(start, i);
+    start = i + 1;
+    state.afterCR = code === CR;
+    yield line;
+  }
+
+  state.text = text.slice(start);
+}
+
+/**
+ * Itera un body NDJSON / JSON Lines: un valor por línea. Las líneas vacías se ignoran.
+ * @param parse Parsea una línea; recibe también su número (empezando en 1).
+ */
+export async function* readJsonLines(
+  lines: AsyncIterable<string>,
+  parse: (text: string, line: number) => unknown,
+): AsyncGenerator<unknown> {
+  let line = 0;
+  for await (const text of lines) {
+    line++;
+    if (text.trim() === "") continue;
+    yield await parse(text, line);
+  }
+}
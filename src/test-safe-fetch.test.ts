@@ -1,4 +1,30 @@
-import { createSafeFetch } from ".";
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import ts from "typescript";
+import {
+  AbortError,
+  CircuitOpenError,
+  createHarRecorder,
+  createHarTransport,
+  createMockTransport,
+  createSafeFetch,
+  defineApi,
+  type DocumentNodeLike,
+  type DocumentTypeDecoration,
+  GraphQLError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  QueueTimeoutError,
+  RateLimitError,
+  SafeFetchError,
+  TimeoutError,
+  type TransferProgress,
+  typed,
+  ValidationError,
+  type StandardSchemaV1,
+} from ".";
+import { generateClient, type OpenApiDocument } from "./openapi";
 
 const globalScope = typeof globalThis !== "undefined" ? globalThis : global;
 const originalFetch = globalScope.fetch;
@@ -57,6 +83,51 @@ function mockFetch(handler: (url: string, init: any) => Promise<Response>) {
   };
 }
 
+// Schema mínimo compatible con Standard Schema (sin depender de zod)
+function objectSchema<T extends Record<string, "string" | "number">>(
+  shape: T,
+): StandardSchemaV1<
+  unknown,
+  { [K in keyof T]: T[K] extends "string" ? string : number }
+> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value: any) => {
+        const issues = Object.entries(shape)
+          .filter(([key, type]) => typeof value?.[key] !== type)
+          .map(([key, type]) => ({ message: `Expected ${type}`, path: [key] }));
+        return issues.length ? { issues } : { value };
+      },
+    },
+  };
+}
+
+// Stream que entrega los chunks uno a uno y (opcionalmente) queda abierto
+function eventSource(chunks: (string | Uint8Array)[], keepOpen = false) {
+  const encoder = new TextEncoder();
+  const state = { cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk !== undefined)
+        controller.enqueue(
+          typeof chunk === "string" ? encoder.encode(chunk) : chunk,
+        );
+      else if (!keepOpen) controller.close();
+      else return new Promise(() => {});
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  const response = new Response(body, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+  return { response, state };
+}
+
 function restoreFetch() {
   // @ts-ignore
   globalScope.fetch = originalFetch;
@@ -178,7 +249,7 @@ async function runTests() {
     });
 
     mockFetch(async () => new Response("Not Found", { status: 404 }));
-    await apiHooks.get("/missing");
+    await apiHooks.get("/missing").catch(() => {});
 
     assert("Hook: onRequest", flags.req);
     assert("Hook: onResponse", flags.res);
@@ -231,4 +302,2429 @@ async function runTests() {
   }
 }
 
-runTests();
+// Secciones 1-6: el script original, ahora dentro del runner de `bun test`
+test("📡 1-6. Core (methods, response types, signals, config, hooks)", async () => {
+  await runTests();
+  expect(failed).toBe(0);
+});
+
+afterAll(restoreFetch);
+
+// ======================================================
+// 7. TEST DE ERRORES TIPADOS
+// ======================================================
+describe("🧯 7. Typed Errors", () => {
+  const api = createSafeFetch({ baseUrl: "https://api.test" });
+
+  const unprocessable = async () =>
+    new Response(JSON.stringify({ message: "nope" }), {
+      status: 422,
+      headers: { "x-trace": "abc" },
+    });
+
+  test("HttpError carries status, body, headers, method, url and attempts", async () => {
+    mockFetch(unprocessable);
+
+    const error: any = await api.post("/users", { name: "" }).catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(422);
+    expect(error.body?.message).toBe("nope");
+    expect(error.headers.get("x-trace")).toBe("abc");
+    expect(error.method).toBe("POST");
+    expect(error.url).toBe("https://api.test/users");
+    expect(error.attempts).toBe(1);
+  });
+
+  test("throwHttpErrors: false and the core call return the response", async () => {
+    mockFetch(unprocessable);
+    const optOut = await api.get<{ message: string }>("/users", {
+      throwHttpErrors: false,
+    });
+    expect(optOut.message).toBe("nope");
+
+    const rawError = await api("/users");
+    expect(rawError.status).toBe(422);
+  });
+
+  test("HttpError uses the final url after a redirect", async () => {
+    mockFetch(async () => {
+      const res = new Response("gone", { status: 410 });
+      Object.defineProperty(res, "url", { value: "https://api.test/v2/users" });
+      return res;
+    });
+    await expect(api.get("/users")).rejects.toMatchObject({
+      url: "https://api.test/v2/users",
+    });
+  });
+
+  const slow = async () => {
+    await new Promise((r) => setTimeout(r, 50));
+    return new Response("ok");
+  };
+
+  test("TimeoutError", async () => {
+    mockFetch(slow);
+    const error: any = await api.get("/slow", { timeout: 5 }).catch((e) => e);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBe(5);
+  });
+
+  test("AbortError (user)", async () => {
+    mockFetch(slow);
+    const userController = new AbortController();
+    const pending = api.get("/slow", { signal: userController.signal });
+    userController.abort();
+    const error: any = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.reason).toBe("user");
+  });
+
+  test("NetworkError keeps the cause and counts attempts", async () => {
+    let networkCalls = 0;
+    mockFetch(async () => {
+      networkCalls++;
+      throw new TypeError("fetch failed");
+    });
+    const error: any = await api
+      .get("/down", { retries: 1, retryDelay: 1 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.cause).toBeInstanceOf(TypeError);
+    expect(error.attempts).toBe(2);
+    expect(networkCalls).toBe(2);
+  });
+});
+
+// ======================================================
+// 8. TEST DE MODO SIN EXCEPCIONES (try)
+// ======================================================
+describe("🛡️ 8. Safe Result Mode", () => {
+  const api = createSafeFetch({ baseUrl: "https://api.test" });
+
+  beforeEach(() => {
+    mockFetch(async (url) => {
+      if (url.includes("ok")) return new Response(JSON.stringify({ id: 1 }));
+      if (url.includes("malformed"))
+        return new Response("{oops", {
+          headers: { "Content-Type": "application/json" },
+        });
+      if (url.includes("down")) throw new TypeError("fetch failed");
+      if (url.includes("empty")) return new Response("");
+      return new Response(JSON.stringify({ message: "bad" }), { status: 400 });
+    });
+  });
+
+  test("ok result", async () => {
+    const good = await api.try.get<{ id: number }>("/ok");
+    expect(good.ok && good.data.id).toBe(1);
+    expect(good.response).toBeInstanceOf(Response);
+  });
+
+  test("HttpError result", async () => {
+    const bad = await api.try.post("/bad", { a: 1 });
+    expect(bad.ok).toBe(false);
+    expect(!bad.ok && bad.error).toBeInstanceOf(HttpError);
+    expect(bad.response?.status).toBe(400);
+  });
+
+  test("NetworkError result", async () => {
+    const down = await api.try.get("/down");
+    expect(down.ok).toBe(false);
+    expect(!down.ok && down.error).toBeInstanceOf(NetworkError);
+    expect(down.response).toBeUndefined();
+  });
+
+  test("ParseError result", async () => {
+    const broken = await api.try.get("/malformed", { responseType: "json" });
+    expect(broken.ok).toBe(false);
+    expect(!broken.ok && broken.error).toBeInstanceOf(ParseError);
+    expect(!broken.ok && (broken.error as ParseError).body).toBe("{oops");
+  });
+
+  test("implicit json falls back to text", async () => {
+    const lenient = await api.try.get<string>("/malformed");
+    expect(lenient.ok && lenient.data).toBe("{oops");
+  });
+
+  test("explicit json with an empty body returns null", async () => {
+    const empty = await api.try.get("/empty", { responseType: "json" });
+    expect(empty.ok).toBe(true);
+    expect(empty.ok && empty.data).toBeNull();
+  });
+});
+
+// ======================================================
+// 9. TEST DE POLÍTICA DE REINTENTOS
+// ======================================================
+describe("🔄 9. Retry Policy", () => {
+  const api = createSafeFetch({ baseUrl: "https://api.test" });
+  let retryCalls = 0;
+
+  beforeEach(() => {
+    retryCalls = 0;
+    mockFetch(async () => {
+      retryCalls++;
+      return new Response("busy", { status: 503 });
+    });
+  });
+
+  test("exponential backoff", async () => {
+    const delays: number[] = [];
+    await api
+      .get("/busy", {
+        retry: {
+          limit: 3,
+          delay: 5,
+          backoff: "exponential",
+          onRetry: ({ delay }) => {
+            delays.push(delay);
+          },
+        },
+      })
+      .catch(() => {});
+    expect(delays).toEqual([5, 10, 20]);
+    expect(retryCalls).toBe(4);
+  });
+
+  test("POST is not retried by default", async () => {
+    await expect(
+      api.post("/busy", {}, { retry: { limit: 2, delay: 1 } }),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(retryCalls).toBe(1);
+  });
+
+  test("POST opt-in", async () => {
+    await expect(
+      api.post(
+        "/busy",
+        {},
+        { retry: { limit: 2, delay: 1, methods: ["POST"] } },
+      ),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(retryCalls).toBe(3);
+  });
+
+  test("honors Retry-After on 429", async () => {
+    mockFetch(async () => {
+      retryCalls++;
+      if (retryCalls === 1)
+        return new Response("slow down", {
+          status: 429,
+          headers: { "Retry-After": "0" },
+        });
+      return new Response(JSON.stringify({ ok: true }));
+    });
+    const afterRateLimit = await api.get<{ ok: boolean }>("/limited", {
+      retry: { limit: 1, delay: 60000 },
+    });
+    expect(afterRateLimit.ok).toBe(true);
+    expect(retryCalls).toBe(2);
+  });
+
+  test("shouldRetry predicate", async () => {
+    mockFetch(async () => {
+      retryCalls++;
+      return new Response("bad", { status: 400 });
+    });
+    await expect(
+      api.get("/custom", {
+        retry: {
+          limit: 2,
+          delay: 1,
+          shouldRetry: async ({ response, retryable }) =>
+            retryable || response?.status === 400,
+        },
+      }),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(retryCalls).toBe(3);
+  });
+});
+
+// ======================================================
+// 10. TEST DE VALIDACIÓN CON STANDARD SCHEMA
+// ======================================================
+describe("📐 10. Schema Validation", () => {
+  const api = createSafeFetch({ baseUrl: "https://api.test" });
+  const UserSchema = objectSchema({ id: "number", name: "string" });
+
+  beforeEach(() => {
+    mockFetch(async (url, init) => {
+      if (url.includes("invalid"))
+        return new Response(JSON.stringify({ id: "1", name: "Alex" }));
+      return new Response(init.body ?? JSON.stringify({ id: 1, name: "Alex" }));
+    });
+  });
+
+  test("valid response", async () => {
+    const validUser = await api.get("/valid", { schema: UserSchema });
+    const inferredName: string = validUser.name; // El tipo se infiere del schema
+    expect(inferredName).toBe("Alex");
+  });
+
+  test("invalid response throws ValidationError", async () => {
+    const error: any = await api
+      .get("/invalid", { schema: UserSchema })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.target).toBe("response");
+    expect(error.issues[0].path?.[0]).toBe("id");
+    expect(error.body).toBe('{"id":"1","name":"Alex"}');
+  });
+
+  test("request body is validated before sending", async () => {
+    let bodySent = false;
+    mockFetch(async () => {
+      bodySent = true;
+      return new Response("{}");
+    });
+    const error: any = await api
+      .post("/users", { id: 1 }, { bodySchema: UserSchema })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.target).toBe("request");
+    expect(bodySent).toBe(false);
+  });
+});
+
+// ======================================================
+// 11. TEST DE MIDDLEWARES
+// ======================================================
+describe("🧅 11. Middleware Pipeline", () => {
+  const apiMw = createSafeFetch({ baseUrl: "https://mw.test" });
+  const order: string[] = [];
+  let mwCalls = 0;
+
+  beforeEach(() => {
+    order.length = 0;
+    mwCalls = 0;
+    mockFetch(async (url, init) => {
+      mwCalls++;
+      order.push(`fetch:${init.headers.get("x-auth")}`);
+      if (url.includes("flaky") && mwCalls === 1)
+        return new Response("", { status: 503 });
+      if (url.includes("fail")) throw new TypeError("fetch failed");
+      return new Response(JSON.stringify({ ok: true }));
+    });
+  });
+
+  test("onion order and eject", async () => {
+    const ejectAuth = apiMw.use(async (ctx, next) => {
+      order.push("auth:in");
+      ctx.init.headers = { ...ctx.init.headers, "x-auth": "token" };
+      const res = await next();
+      order.push("auth:out");
+      return res;
+    });
+    const ejectLog = apiMw.use(async (ctx, next) => {
+      order.push("log:in");
+      const res = await next();
+      order.push("log:out");
+      return res;
+    });
+
+    await apiMw.get("/onion");
+    expect(order).toEqual([
+      "auth:in",
+      "log:in",
+      "fetch:token",
+      "log:out",
+      "auth:out",
+    ]);
+
+    ejectAuth();
+    ejectLog();
+    order.length = 0;
+    await apiMw.get("/onion");
+    expect(order).toEqual(["fetch:null"]);
+  });
+
+  test("attempt scope runs once per attempt", async () => {
+    const attemptsSeen: number[] = [];
+    const ejectAttempt = apiMw.use(
+      async (ctx, next) => {
+        attemptsSeen.push(ctx.attempt);
+        return next();
+      },
+      { scope: "attempt" },
+    );
+    await apiMw.get("/flaky", { retry: { limit: 1, delay: 1 } });
+    ejectAttempt();
+    expect(attemptsSeen).toEqual([1, 2]);
+  });
+
+  test("short-circuit", async () => {
+    const ejectMock = apiMw.use(async (ctx, next) =>
+      ctx.url.endsWith("/mocked")
+        ? new Response(JSON.stringify({ mocked: true }))
+        : next(),
+    );
+    const mocked = await apiMw.get<{ mocked: boolean }>("/mocked");
+    ejectMock();
+    expect(mocked.mocked).toBe(true);
+    expect(mwCalls).toBe(0);
+  });
+
+  test("error handling", async () => {
+    const ejectFallback = apiMw.use(async (ctx, next) => {
+      try {
+        return await next();
+      } catch (e) {
+        if (e instanceof NetworkError)
+          return new Response(JSON.stringify({ offline: true }));
+        throw e;
+      }
+    });
+    const fallback = await apiMw.get<{ offline: boolean }>("/fail");
+    ejectFallback();
+    expect(fallback.offline).toBe(true);
+  });
+});
+
+// ======================================================
+// 12. TEST DE CACHÉ HTTP
+// ======================================================
+describe("🗄️ 12. HTTP Cache", () => {
+  const apiCache = createSafeFetch({
+    baseUrl: "https://cache.test",
+    cache: { ttl: 1000 },
+  });
+  let cacheHits = 0;
+  let lastIfNoneMatch: string | null = null;
+
+  beforeEach(() => {
+    cacheHits = 0;
+    mockFetch(async (url, init) => {
+      cacheHits++;
+      lastIfNoneMatch = init.headers.get("If-None-Match");
+      if (url.includes("etag")) {
+        if (lastIfNoneMatch === '"v1"')
+          return new Response(null, { status: 304 });
+        return new Response(JSON.stringify({ v: 1 }), {
+          headers: { ETag: '"v1"', "Cache-Control": "no-cache" },
+        });
+      }
+      if (url.includes("nostore"))
+        return new Response("{}", { headers: { "Cache-Control": "no-store" } });
+      return new Response(JSON.stringify({ n: cacheHits }));
+    });
+  });
+
+  test("fresh hit, per-request opt-out and invalidate", async () => {
+    const first = await apiCache.get<{ n: number }>("/users/1");
+    const second = await apiCache.get<{ n: number }>("/users/1");
+    expect(first.n).toBe(1);
+    expect(second.n).toBe(1);
+    expect(cacheHits).toBe(1);
+
+    await apiCache.get("/users/1", { cache: false });
+    expect(cacheHits).toBe(2);
+
+    const removed = await apiCache.cache.invalidate("/users/*");
+    await apiCache.get("/users/1");
+    expect(removed).toBe(1);
+    expect(cacheHits).toBe(3);
+  });
+
+  test("ETag revalidation (304)", async () => {
+    const etag1 = await apiCache.get<{ v: number }>("/etag");
+    const etag2 = await apiCache.get<{ v: number }>("/etag");
+    expect(etag1.v).toBe(1);
+    expect(etag2.v).toBe(1);
+    expect(cacheHits).toBe(2);
+    expect(lastIfNoneMatch).toBe('"v1"');
+  });
+
+  test("respects no-store", async () => {
+    await apiCache.get("/nostore");
+    await apiCache.get("/nostore");
+    expect(cacheHits).toBe(2);
+  });
+
+  test("stale-while-revalidate", async () => {
+    const apiSwr = createSafeFetch({ baseUrl: "https://swr.test" });
+    await apiSwr.get("/feed", {
+      cache: { ttl: 0, staleWhileRevalidate: 60000 },
+    });
+    const stale = await apiSwr.get<{ n: number }>("/feed", {
+      cache: { ttl: 0, staleWhileRevalidate: 60000 },
+    });
+    await new Promise((r) => setTimeout(r, 5));
+    expect(stale.n).toBe(1);
+    expect(cacheHits).toBe(2);
+  });
+
+  test("Vary keeps variants apart", async () => {
+    // `Vary`: cada idioma es una variante distinta
+    mockFetch(async (url, init) => {
+      cacheHits++;
+      return new Response(
+        JSON.stringify({ lang: init.headers.get("Accept-Language") }),
+        { headers: { Vary: "Accept-Language" } },
+      );
+    });
+    const es = await apiCache.get<{ lang: string }>("/i18n", {
+      headers: { "Accept-Language": "es" },
+    });
+    const en = await apiCache.get<{ lang: string }>("/i18n", {
+      headers: { "Accept-Language": "en" },
+    });
+    const enAgain = await apiCache.get<{ lang: string }>("/i18n", {
+      headers: { "Accept-Language": "en" },
+    });
+    expect([es.lang, en.lang, enAgain.lang]).toEqual(["es", "en", "en"]);
+    expect(cacheHits).toBe(2);
+  });
+
+  test("Authorization requests need an explicit key", async () => {
+    // Con `Authorization` solo se cachea con una `key` propia
+    const auth = { Authorization: "Bearer alice" } as const;
+    await apiCache.get("/me", { headers: auth });
+    await apiCache.get("/me", { headers: auth });
+    expect(cacheHits).toBe(2);
+    await apiCache.get("/me", { headers: auth, cache: { key: "me:alice" } });
+    await apiCache.get("/me", { headers: auth, cache: { key: "me:alice" } });
+    expect(cacheHits).toBe(3);
+  });
+});
+
+// ======================================================
+// 13. TEST DE DEDUPLICACIÓN
+// ======================================================
+describe("🔗 13. Request Deduplication", () => {
+  const apiDedupe = createSafeFetch({
+    baseUrl: "https://dedupe.test",
+    dedupe: true,
+  });
+  let dedupeCalls = 0;
+  let sharedSignal: AbortSignal | undefined;
+
+  beforeEach(() => {
+    dedupeCalls = 0;
+    mockFetch(async (url, init) => {
+      dedupeCalls++;
+      sharedSignal = init.signal;
+      await new Promise((r) => setTimeout(r, 20));
+      return new Response(JSON.stringify({ me: "alex" }));
+    });
+  });
+
+  test("single fetch for identical requests", async () => {
+    const [me1, me2, me3] = await Promise.all([
+      apiDedupe.get<{ me: string }>("/me"),
+      apiDedupe.get<{ me: string }>("/me"),
+      apiDedupe.get<{ me: string }>("/me"),
+    ]);
+    expect(dedupeCalls).toBe(1);
+    expect([me1.me, me2.me, me3.me]).toEqual(["alex", "alex", "alex"]);
+  });
+
+  test("different keys are not shared", async () => {
+    await Promise.all([
+      apiDedupe.get("/me", { params: { page: 1 } }),
+      apiDedupe.get("/me", { params: { page: 2 } }),
+      apiDedupe.get("/me", { dedupe: false }),
+    ]);
+    expect(dedupeCalls).toBe(3);
+  });
+
+  test("one caller aborts alone", async () => {
+    const leaver = new AbortController();
+    const aborted = apiDedupe.get("/me", { signal: leaver.signal });
+    const stayer = apiDedupe.get<{ me: string }>("/me");
+    leaver.abort();
+    await expect(aborted).rejects.toBeInstanceOf(AbortError);
+    const stayed = await stayer;
+    expect(stayed.me).toBe("alex");
+    expect(dedupeCalls).toBe(1);
+  });
+
+  test("abortAll cancels the shared fetch", async () => {
+    const all1 = apiDedupe.get("/me");
+    const all2 = apiDedupe.get("/me");
+    await new Promise((r) => setTimeout(r, 1));
+    apiDedupe.abortAll();
+    const results = await Promise.allSettled([all1, all2]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+});
+
+// ======================================================
+// 14. TEST DE COLA DE CONCURRENCIA
+// ======================================================
+describe("🚦 14. Concurrency Queue", () => {
+  const apiQueue = createSafeFetch({
+    baseUrl: "https://queue.test",
+    maxConcurrent: 2,
+  });
+  let inFlightNow = 0;
+  let maxInFlight = 0;
+  const started: string[] = [];
+
+  beforeEach(() => {
+    started.length = 0;
+    mockFetch(async (url) => {
+      started.push(new URL(url).pathname);
+      inFlightNow++;
+      maxInFlight = Math.max(maxInFlight, inFlightNow);
+      await new Promise((r) => setTimeout(r, 10));
+      inFlightNow--;
+      return new Response("{}");
+    });
+  });
+
+  test("introspection, maxConcurrent and priority order", async () => {
+    const batch = [
+      apiQueue.get("/a"),
+      apiQueue.get("/b"),
+      apiQueue.get("/low", { priority: -1 }),
+      apiQueue.get("/high", { priority: 10 }),
+    ];
+    await new Promise((r) => setTimeout(r, 1));
+    expect(apiQueue.queue.pending).toBe(2);
+    expect(apiQueue.queue.size).toBe(2);
+    await Promise.all(batch);
+    expect(maxInFlight).toBe(2);
+    expect(started).toEqual(["/a", "/b", "/high", "/low"]);
+  });
+
+  test("onIdle", async () => {
+    const idle1 = apiQueue.get("/a");
+    const idle2 = apiQueue.get("/b");
+    await new Promise((r) => setTimeout(r, 1));
+    await apiQueue.queue.onIdle();
+    expect(apiQueue.queue.pending).toBe(0);
+    await Promise.all([idle1, idle2]);
+  });
+
+  test("queueTimeout and cancelling a queued request", async () => {
+    const blockers = [apiQueue.get("/a"), apiQueue.get("/b")];
+    await expect(
+      apiQueue.get("/late", { queueTimeout: 1 }),
+    ).rejects.toBeInstanceOf(QueueTimeoutError);
+
+    const queuedAbort = new AbortController();
+    const cancelled = apiQueue.get("/c", { signal: queuedAbort.signal });
+    queuedAbort.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(AbortError);
+    expect(apiQueue.queue.size).toBe(0);
+    await Promise.all(blockers);
+  });
+
+  test("time spent in the queue does not count toward timeout", async () => {
+    const slowBackend = createMockTransport()
+      .get("/slow", { delay: 60, body: {} })
+      .get("/fast", { delay: 5, body: { ok: true } });
+    const apiSlots = createSafeFetch({
+      baseUrl: "https://queue.test",
+      fetch: slowBackend,
+      maxConcurrent: 1,
+    });
+    const blocker = apiSlots.get("/slow");
+    const queued = await apiSlots.get<{ ok: boolean }>("/fast", {
+      timeout: 30,
+      retry: { limit: 2, delay: 0 },
+    });
+    await blocker;
+    expect(queued.ok).toBe(true);
+    expect(slowBackend.calls("GET", "/fast").length).toBe(1);
+  });
+});
+
+// ======================================================
+// 15. TEST DE SERVER-SENT EVENTS
+// ======================================================
+describe("📡 15. Server-Sent Events", () => {
+  const apiSse = createSafeFetch({ baseUrl: "https://sse.test" });
+
+  test("Accept header and incremental parser", async () => {
+    let sseAccept: string | undefined;
+    mockFetch(async (_url, init) => {
+      sseAccept = init.headers.get("Accept");
+      return eventSource([
+        ": keep-alive\r\n\r",
+        '\nevent: token\r\ndata: {"text":',
+        '"hola"}\n',
+        "id: 7\n\ndata: línea 1\ndata: lí",
+        "nea 2\n\ndata: incompleto",
+      ]).response;
+    });
+
+    const received: { event: string; data: any; id: string }[] = [];
+    for await (const ev of await apiSse.sse("/chat")) received.push(ev);
+    expect(sseAccept).toBe("text/event-stream");
+    expect(received).toMatchObject([
+      { event: "token", data: '{"text":"hola"}', id: "7" },
+      { event: "message", data: "línea 1\nlínea 2" },
+    ]);
+  });
+
+  test("JSON data", async () => {
+    mockFetch(async () => eventSource(['data: {"n":1}\n\n']).response);
+    const jsonEvents = await apiSse.sse<{ n: number }>("/chat", {
+      sse: { json: true },
+    });
+    let jsonData: { n: number } | undefined;
+    for await (const ev of jsonEvents) jsonData = ev.data;
+    expect(jsonData?.n).toBe(1);
+  });
+
+  test("reconnects with Last-Event-ID", async () => {
+    const lastEventIds: (string | null)[] = [];
+    mockFetch(async (_url, init) => {
+      lastEventIds.push(init.headers.get("Last-Event-ID"));
+      if (lastEventIds.length === 1)
+        return eventSource(["retry: 1\nid: a\ndata: 1\n\n"]).response;
+      if (lastEventIds.length === 2)
+        return eventSource(["id: b\ndata: 2\n\n"]).response;
+      return new Response(null, { status: 204 }); // Fin: no reconectar
+    });
+    const resumed: string[] = [];
+    for await (const ev of await apiSse.sse("/feed", {
+      sse: { reconnect: 1 },
+    })) {
+      resumed.push(ev.data);
+    }
+    expect(resumed).toEqual(["1", "2"]);
+    expect(lastEventIds).toEqual([null, "a", "b"]);
+  });
+
+  test("abortAll stops the reconnect delay", async () => {
+    let sleepyConnections = 0;
+    mockFetch(async () => {
+      sleepyConnections++;
+      return eventSource(["data: 1\n\n"]).response;
+    });
+    const sleepyStart = Date.now();
+    const sleepy = await apiSse.sse("/sleepy", {
+      sse: { reconnect: true, retryDelay: 10_000 },
+    });
+    setTimeout(() => apiSse.abortAll(), 20);
+    for await (const _ev of sleepy) {
+    }
+    expect(sleepyConnections).toBe(1);
+    expect(Date.now() - sleepyStart).toBeLessThan(1000);
+  });
+
+  test("abortAll cancels an open stream", async () => {
+    const openStream = eventSource(["data: uno\n\n"], true);
+    mockFetch(async () => openStream.response);
+    const liveEvents = await apiSse.sse("/live");
+    const liveError = await (async () => {
+      for await (const _ev of liveEvents) apiSse.abortAll();
+    })().catch((e) => e);
+    expect(liveError).toBeInstanceOf(AbortError);
+    expect(liveError.reason).toBe("abortAll");
+    expect(openStream.state.cancelled).toBe(true);
+  });
+
+  test("idle timeout", async () => {
+    const idleStream = eventSource([], true);
+    mockFetch(async () => idleStream.response);
+    await expect(
+      (async () => {
+        for await (const _ev of await apiSse.sse("/idle", { timeout: 20 })) {
+        }
+      })(),
+    ).rejects.toBeInstanceOf(TimeoutError);
+  });
+
+  test("break cancels the stream", async () => {
+    const breakStream = eventSource(["data: a\n\ndata: b\n\n"], true);
+    mockFetch(async () => breakStream.response);
+    for await (const _ev of await apiSse.sse("/break")) break;
+    expect(breakStream.state.cancelled).toBe(true);
+  });
+});
+
+// ======================================================
+// 16. TEST DE NDJSON
+// ======================================================
+describe("📜 16. NDJSON Streaming", () => {
+  const apiNdjson = createSafeFetch({ baseUrl: "https://ndjson.test" });
+
+  test("chunks, UTF-8 and empty lines", async () => {
+    // "ñ" (2 bytes) partido entre dos chunks
+    const rows = new TextEncoder().encode(
+      '{"id":1,"name":"Peña"}\r\n\n{"id":2}',
+    );
+    const split = rows.indexOf(0xc3) + 1;
+    mockFetch(
+      async () =>
+        eventSource([rows.slice(0, split), rows.slice(split), "\n  \n"])
+          .response,
+    );
+    const ndjsonRows: { id: number; name?: string }[] = [];
+    for await (const row of await apiNdjson.ndjson<{
+      id: number;
+      name?: string;
+    }>("/export")) {
+      ndjsonRows.push(row);
+    }
+    expect(ndjsonRows).toEqual([{ id: 1, name: "Peña" }, { id: 2 }]);
+  });
+
+  test("ParseError with the line number", async () => {
+    mockFetch(
+      async () => eventSource(['{"id":1}\n\n{"id":\n{"id":3}\n']).response,
+    );
+    const ndjsonError = await (async () => {
+      for await (const _row of await apiNdjson.get<AsyncIterable<unknown>>(
+        "/broken-lines",
+        { responseType: "ndjson" },
+      )) {
+      }
+    })().catch((e) => e);
+    expect(ndjsonError).toBeInstanceOf(ParseError);
+    expect(ndjsonError.line).toBe(3);
+    expect(ndjsonError.body).toBe('{"id":');
+  });
+
+  test("break cancels the fetch", async () => {
+    const hugeExport = eventSource(['{"id":1}\n{"id":2}\n'], true);
+    mockFetch(async () => hugeExport.response);
+    for await (const _row of await apiNdjson.ndjson("/huge")) break;
+    expect(hugeExport.state.cancelled).toBe(true);
+  });
+});
+
+// ======================================================
+// 17. TEST DE PROGRESO (UPLOAD / DOWNLOAD)
+// ======================================================
+describe("📶 17. Progress Events", () => {
+  const apiProgress = createSafeFetch({ baseUrl: "https://files.test" });
+  const fileBytes = new Uint8Array(300).fill(65);
+
+  beforeEach(() => {
+    mockFetch(async (url) => {
+      const { response } = eventSource([
+        fileBytes.slice(0, 100),
+        fileBytes.slice(100, 200),
+        fileBytes.slice(200),
+      ]);
+      if (url.endsWith("/unknown-size")) return response;
+      return new Response(response.body, {
+        headers: { "Content-Length": "300" },
+      });
+    });
+  });
+
+  test("download with Content-Length", async () => {
+    const downloads: TransferProgress[] = [];
+    const downloaded = await apiProgress.get<string>("/report.pdf", {
+      responseType: "text",
+      onDownloadProgress: (p) => downloads.push(p),
+    });
+    expect(downloaded.length).toBe(300);
+    expect(downloads.map((p) => p.loaded)).toEqual([100, 200, 300]);
+    expect(Math.round(downloads[0].percent!)).toBe(33);
+    expect(downloads[2].percent).toBe(100);
+    expect(downloads[2].total).toBe(300);
+  });
+
+  test("download without Content-Length", async () => {
+    const unknownSize: TransferProgress[] = [];
+    await apiProgress.get("/unknown-size", {
+      responseType: "arrayBuffer",
+      onDownloadProgress: (p) => unknownSize.push(p),
+    });
+    const lastUnknown = unknownSize[unknownSize.length - 1];
+    expect(unknownSize[0].total).toBeUndefined();
+    expect(lastUnknown.total).toBe(300);
+    expect(lastUnknown.percent).toBe(100);
+  });
+
+  test("upload reports 100%", async () => {
+    const uploads: TransferProgress[] = [];
+    mockFetch(async () => new Response("{}"));
+    await apiProgress.post(
+      "/upload",
+      { name: "ñandú" },
+      { onUploadProgress: (p) => uploads.push(p) },
+    );
+    const uploadSize = new TextEncoder().encode(
+      JSON.stringify({ name: "ñandú" }),
+    ).byteLength;
+    expect(uploads.length).toBeGreaterThan(0);
+    expect(uploads[uploads.length - 1].loaded).toBe(uploadSize);
+    expect(uploads[uploads.length - 1].percent).toBe(100);
+  });
+});
+
+// ======================================================
+// 18. TEST DE AUTENTICACIÓN
+// ======================================================
+describe("🔐 18. Auth Manager", () => {
+  let currentToken = "expired";
+  let refreshCalls = 0;
+  let authFailures = 0;
+  const apiAuth = createSafeFetch({
+    baseUrl: "https://auth.test",
+    auth: {
+      getToken: () => currentToken,
+      refreshToken: async () => {
+        refreshCalls++;
+        await new Promise((r) => setTimeout(r, 10));
+        if (currentToken === "revoked") throw new Error("refresh denied");
+        currentToken = "fresh";
+      },
+      onAuthFailure: () => {
+        authFailures++;
+      },
+    },
+  });
+
+  const replayedBodies: string[] = [];
+  const sentAuth: (string | null)[] = [];
+
+  beforeEach(() => {
+    refreshCalls = 0;
+    sentAuth.length = 0;
+    mockFetch(async (_url, init) => {
+      const authorization = init.headers.get("Authorization");
+      sentAuth.push(authorization);
+      if (authorization !== "Bearer fresh")
+        return new Response("{}", { status: 401 });
+      if (init.body) replayedBodies.push(init.body);
+      return new Response(JSON.stringify({ ok: true }));
+    });
+  });
+
+  test("single refresh for concurrent 401s, replay with the new token and the same body", async () => {
+    const authResults = await Promise.all([
+      apiAuth.get<{ ok: boolean }>("/a"),
+      apiAuth.get<{ ok: boolean }>("/b"),
+      apiAuth.post<{ ok: boolean }>("/c", { n: 1 }),
+    ]);
+    expect(refreshCalls).toBe(1);
+    expect(authResults.every((r) => r.ok)).toBe(true);
+    expect(sentAuth.filter((h) => h === "Bearer fresh").length).toBe(3);
+    expect(replayedBodies[0]).toBe('{"n":1}');
+  });
+
+  test("auth: false sends no token", async () => {
+    await apiAuth.get("/login", { auth: false }).catch(() => {});
+    expect(sentAuth[0]).toBeNull();
+  });
+
+  test("failed refresh fires onAuthFailure once", async () => {
+    currentToken = "revoked";
+    const failedAuth = await Promise.all([
+      apiAuth.get("/a").catch((e) => e),
+      apiAuth.get("/b").catch((e) => e),
+    ]);
+    expect(refreshCalls).toBe(1);
+    expect(authFailures).toBe(1);
+    for (const error of failedAuth) {
+      expect(error).toBeInstanceOf(HttpError);
+      expect((error as HttpError).status).toBe(401);
+    }
+  });
+
+  test("replays the original body: bodySchema and serializers run again", async () => {
+    let token = "expired";
+    const apiReplay = createSafeFetch({
+      baseUrl: "https://auth-replay.test",
+      auth: {
+        getToken: () => token,
+        refreshToken: async () => {
+          token = "fresh";
+        },
+      },
+    });
+    const sent: { auth: string | null; type: string | null; body: string }[] =
+      [];
+    mockFetch(async (_url, init) => {
+      const auth = init.headers.get("Authorization");
+      sent.push({
+        auth,
+        type: init.headers.get("Content-Type"),
+        body: init.body,
+      });
+      return new Response("{}", {
+        status: auth === "Bearer fresh" ? 200 : 401,
+      });
+    });
+
+    await apiReplay.post(
+      "/users",
+      { id: 1, name: "Ada" },
+      { bodySchema: objectSchema({ id: "number", name: "string" }) },
+    );
+    token = "expired";
+    await apiReplay.post(
+      "/users",
+      { name: "Ada" },
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } },
+    );
+    expect(sent).toEqual([
+      {
+        auth: "Bearer expired",
+        type: "application/json",
+        body: '{"id":1,"name":"Ada"}',
+      },
+      {
+        auth: "Bearer fresh",
+        type: "application/json",
+        body: '{"id":1,"name":"Ada"}',
+      },
+      {
+        auth: "Bearer expired",
+        type: "application/x-www-form-urlencoded",
+        body: "name=Ada",
+      },
+      {
+        auth: "Bearer fresh",
+        type: "application/x-www-form-urlencoded",
+        body: "name=Ada",
+      },
+    ]);
+  });
+
+  test("the replay after a refresh keeps listening to the user's signal", async () => {
+    // El replay tras el refresh sigue escuchando el signal del usuario
+    let dedupeToken = "expired";
+    const apiAuthDedupe = createSafeFetch({
+      baseUrl: "https://auth-dedupe.test",
+      dedupe: true,
+      auth: {
+        getToken: () => dedupeToken,
+        refreshToken: async () => {
+          dedupeToken = "fresh";
+        },
+      },
+    });
+    mockFetch(async (_url, init) => {
+      if (init.headers.get("Authorization") !== "Bearer fresh")
+        return new Response("{}", { status: 401 });
+      await new Promise((r) => setTimeout(r, 500));
+      return new Response("{}");
+    });
+    const replayController = new AbortController();
+    const replayStart = Date.now();
+    const replayed = apiAuthDedupe
+      .get("/me", { signal: replayController.signal })
+      .catch((e) => e);
+    setTimeout(() => replayController.abort(), 30);
+    const replayError: any = await replayed;
+    expect(replayError).toBeInstanceOf(AbortError);
+    expect(replayError.reason).toBe("user");
+    expect(Date.now() - replayStart).toBeLessThan(400);
+  });
+});
+
+// ======================================================
+// 19. TEST DE TRANSPORTE MOCK
+// ======================================================
+describe("🧪 19. Mock Transport", () => {
+  const transport = createMockTransport({ strict: true })
+    .get("/users/:id", ({ params, query }) => ({
+      body: { id: params.id, expand: query.get("expand") },
+    }))
+    .post(
+      "/users",
+      { status: 201, body: { created: "admin" } },
+      {
+        body: { role: "admin" },
+      },
+    )
+    .post("/users", { status: 201, body: { created: "user" } })
+    .get("/slow", { delay: 1000, body: {} })
+    .get("/down", { error: true });
+  const apiMock = createSafeFetch({
+    baseUrl: "https://mock.test",
+    fetch: transport,
+  });
+
+  test("path params and query", async () => {
+    const mockedUser = await apiMock.get<{ id: string; expand: string }>(
+      "/users/42",
+      { params: { expand: "roles" } },
+    );
+    expect(mockedUser).toEqual({ id: "42", expand: "roles" });
+  });
+
+  test("body matcher", async () => {
+    const created = await Promise.all([
+      apiMock.post<{ created: string }>("/users", { role: "admin", n: 1 }),
+      apiMock.post<{ created: string }>("/users", { role: "guest" }),
+    ]);
+    expect(created.map((c) => c.created)).toEqual(["admin", "user"]);
+  });
+
+  test("latency respects abort", async () => {
+    const slowAbort = new AbortController();
+    const slowRequest = apiMock.get("/slow", { signal: slowAbort.signal });
+    setTimeout(() => slowAbort.abort(), 5);
+    await expect(slowRequest).rejects.toBeInstanceOf(AbortError);
+  });
+
+  test("simulated network error (with retry)", async () => {
+    const downError: any = await apiMock
+      .get("/down", { retry: { limit: 1, delay: 0 } })
+      .catch((e) => e);
+    expect(downError).toBeInstanceOf(NetworkError);
+    expect(downError.attempts).toBe(2);
+    expect(transport.calls("GET", "/down").length).toBe(2);
+  });
+
+  test("strict mode fails unmatched requests", async () => {
+    const unmatchedError = await apiMock.get("/nope").catch((e) => e);
+    expect(unmatchedError).toBeInstanceOf(SafeFetchError);
+    expect(unmatchedError).not.toBeInstanceOf(NetworkError);
+    expect(transport.unmatched.length).toBe(1);
+  });
+
+  test("call history", () => {
+    expect(transport.calls("POST", "/users").length).toBe(2);
+    expect(transport.history[0].path).toBe("/users/42");
+    expect(transport.calls("*").length).toBe(transport.history.length);
+  });
+});
+
+// ======================================================
+// 20. TEST DE GRABACIÓN Y REPLAY HAR
+// ======================================================
+describe("📼 20. HAR Record & Replay", () => {
+  let flakyCalls = 0;
+  const backend = createMockTransport()
+    .get("/items", ({ query }) => ({
+      body: [{ id: 1, page: query.get("page") }],
+    }))
+    .get("/flaky", () =>
+      ++flakyCalls === 1 ? { status: 503 } : { body: { ok: true } },
+    )
+    .post("/items", ({ body }) => ({ status: 201, body }));
+  let har: Awaited<ReturnType<ReturnType<typeof createHarRecorder>["toHAR"]>>;
+
+  test("records the final URL, retries and redacts Authorization", async () => {
+    const recorder = createHarRecorder();
+    const apiRecord = createSafeFetch({
+      baseUrl: "https://har.test",
+      fetch: backend,
+      headers: { Authorization: "Bearer secret" },
+    });
+    apiRecord.use(recorder.middleware, { scope: "attempt" });
+
+    await apiRecord.get("/items", { params: { page: 2, sort: "asc" } });
+    await apiRecord.get("/flaky", { retry: { limit: 1, delay: 0 } });
+    await apiRecord.post("/items", { name: "nuevo" });
+    har = await recorder.toHAR();
+    const [itemsEntry, flaky1, flaky2, postEntry] = har.log.entries;
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries.length).toBe(4);
+    expect(itemsEntry.request.url).toBe(
+      "https://har.test/items?page=2&sort=asc",
+    );
+    expect(flaky1.response.status).toBe(503);
+    expect(flaky1._attempt).toBe(1);
+    expect(flaky2._attempt).toBe(2);
+    expect(postEntry.request.postData?.text).toBe('{"name":"nuevo"}');
+    expect(itemsEntry.request.headers).toContainEqual({
+      name: "authorization",
+      value: "[REDACTED]",
+    });
+    expect(JSON.stringify(har)).not.toContain("secret");
+  });
+
+  test("replays without network (normalized query, recording order)", async () => {
+    const replay = createHarTransport(JSON.parse(JSON.stringify(har)));
+    const apiReplay = createSafeFetch({
+      baseUrl: "https://har.test",
+      fetch: replay,
+    });
+    const replayedItems = await apiReplay.get<{ page: string }[]>(
+      "/items?sort=asc&page=2",
+    );
+    const replayedFlaky = await apiReplay.get<{ ok: boolean }>("/flaky", {
+      retry: { limit: 1, delay: 0 },
+    });
+    expect(replayedItems[0].page).toBe("2");
+    expect(replayedFlaky.ok).toBe(true);
+
+    const missingEntry: any = await apiReplay.get("/unknown").catch((e) => e);
+    expect(missingEntry).toBeInstanceOf(SafeFetchError);
+    expect(missingEntry.message).toContain("No HAR entry");
+  });
+
+  test("record missing mode", async () => {
+    const recordMissing = createHarTransport(
+      { log: { version: "1.2", creator: har.log.creator, entries: [] } },
+      { onMissing: "record", fetch: backend },
+    );
+    const apiRecordMissing = createSafeFetch({
+      baseUrl: "https://har.test",
+      fetch: recordMissing,
+    });
+    await apiRecordMissing.get("/items", { params: { page: 9 } });
+    await apiRecordMissing.get("/items", { params: { page: 9 } });
+    expect(recordMissing.har.log.entries.length).toBe(1);
+    expect(backend.calls("GET", "/items").length).toBe(2);
+  });
+
+  test("a stream broken off with break is recorded as truncated", async () => {
+    const openStream = eventSource(["data: uno\n\n"], true);
+    const recorder = createHarRecorder();
+    const apiStream = createSafeFetch({
+      baseUrl: "https://har.test",
+      fetch: async () => openStream.response,
+    });
+    apiStream.use(recorder.middleware, { scope: "attempt" });
+
+    for await (const _ev of await apiStream.sse("/live")) break;
+    const streamHar = await recorder.toHAR();
+
+    expect(openStream.state.cancelled).toBe(true);
+    expect(streamHar.log.entries.length).toBe(1);
+    expect(streamHar.log.entries[0]._truncated).toBe(true);
+    expect(streamHar.log.entries[0].response.content.text).toBe(
+      "data: uno\n\n",
+    );
+  });
+});
+
+// ======================================================
+// 21. TEST DE LOGGER ESTRUCTURADO
+// ======================================================
+describe("📝 21. Structured Logger", () => {
+  const logLines: { level: string; fields: any; message?: string }[] = [];
+  const captureLogger = {
+    debug: (fields: object, message?: string) =>
+      logLines.push({ level: "debug", fields, message }),
+    info: (fields: object, message?: string) =>
+      logLines.push({ level: "info", fields, message }),
+    warn: (fields: object, message?: string) =>
+      logLines.push({ level: "warn", fields, message }),
+    error: (fields: object, message?: string) =>
+      logLines.push({ level: "error", fields, message }),
+  };
+  let logFlaky = 0;
+  const logBackend = createMockTransport()
+    .post("/login", { body: { ok: true } })
+    .get("/flaky", () => (++logFlaky === 1 ? { status: 503 } : { body: {} }))
+    .get("/down", { error: true });
+  const apiLog = createSafeFetch({
+    baseUrl: "https://log.test",
+    fetch: logBackend,
+    logger: captureLogger,
+    logLevel: "debug",
+    headers: { Authorization: "Bearer secret", Cookie: "sid=secret" },
+    redact: {
+      headers: ["X-Api-Key"],
+      query: ["token"],
+      body: ["password", "card.number"],
+    },
+  });
+
+  beforeEach(() => {
+    logLines.length = 0;
+  });
+
+  test("request:start (debug) and response (info) with redacted headers, query and body", async () => {
+    await apiLog.post(
+      "/login",
+      { user: "ada", password: "hunter2", card: { number: "4242", cvc: 1 } },
+      { params: { token: "abc", page: 1 }, headers: { "X-Api-Key": "k" } },
+    );
+    const start = logLines.find((l) => l.fields.event === "request:start");
+    const done = logLines.find((l) => l.fields.event === "response");
+    expect(start?.level).toBe("debug");
+    expect(done?.level).toBe("info");
+    expect(done?.fields.status).toBe(200);
+    expect(done?.fields.attempts).toBe(1);
+    expect(typeof done?.fields.duration).toBe("number");
+
+    expect(start?.fields.headers.Authorization).toBe("[REDACTED]");
+    expect(start?.fields.headers.Cookie).toBe("[REDACTED]");
+    expect(start?.fields.headers["X-Api-Key"]).toBe("[REDACTED]");
+    expect(start?.fields.url).toContain("token=[REDACTED]");
+    expect(start?.fields.url).toContain("page=1");
+    expect(start?.fields.body).toContain(
+      '"card":{"number":"[REDACTED]","cvc":1}',
+    );
+    expect(JSON.stringify(logLines)).not.toContain("secret");
+    expect(JSON.stringify(logLines)).not.toContain("hunter2");
+  });
+
+  test("form-urlencoded bodies are redacted and free text is omitted", async () => {
+    await apiLog.post(
+      "/login",
+      { user: "ada", password: "hunter2", card: { number: "4242" } },
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } },
+    );
+    await apiLog.post("/login", "password=hunter2 (texto libre)", {
+      headers: { "Content-Type": "text/plain" },
+    });
+    const [formStart, textStart] = logLines
+      .filter((l) => l.fields.event === "request:start")
+      .map((l) => l.fields.body);
+    expect(formStart).toContain("user=ada");
+    expect(formStart).toContain("password=[REDACTED]");
+    expect(formStart).toContain("card%5Bnumber%5D=[REDACTED]");
+    expect(textStart).toBe("[body omitted]");
+    expect(JSON.stringify(logLines)).not.toContain("hunter2");
+  });
+
+  test("retries and final failure", async () => {
+    await apiLog.get("/flaky", { retry: { limit: 1, delay: 0 } });
+    await expect(apiLog.get("/down", { retries: 0 })).rejects.toBeInstanceOf(
+      NetworkError,
+    );
+    const events = logLines.map((l) => `${l.level}:${l.fields.event}`);
+    const failedLog = logLines.find((l) => l.fields.event === "request:failed");
+    expect(events).toContain("info:retry:scheduled");
+    expect(events).toContain("warn:attempt:failed");
+    expect(failedLog?.level).toBe("error");
+    expect(failedLog?.fields.error.name).toBe("NetworkError");
+    expect(failedLog?.fields.curl).toContain("curl");
+    expect(failedLog?.fields.curl).not.toContain("secret");
+  });
+
+  test("logLevel filters events", async () => {
+    apiLog.configure({ logLevel: "warn" });
+    await apiLog.post("/login", {});
+    await apiLog.get("/down", { retries: 0 }).catch(() => {});
+    expect(logLines.map((l) => l.level)).toEqual(["warn", "error"]);
+  });
+});
+
+// ======================================================
+// 22. TEST DE CONTRATO TIPADO (defineApi)
+// ======================================================
+describe("📜 22. Typed API Contract", () => {
+  const contractBackend = createMockTransport()
+    .get("/users/:id", ({ params, query }) => ({
+      body: { id: params.id, name: "Ada", expand: query.get("expand") },
+    }))
+    .post("/users", ({ body }) => ({ status: 201, body }))
+    .delete("/users/:id/posts/:postId", { status: 204 });
+  const contract = defineApi(
+    {
+      "GET /users/:id": {
+        query: typed<{ expand?: string }>(),
+        response: objectSchema({ id: "string", name: "string" }),
+      },
+      "POST /users": {
+        body: objectSchema({ name: "string" }),
+        response: typed<{ name: string }>(),
+      },
+      "DELETE /users/:id/posts/:postId": {},
+    },
+    createSafeFetch({
+      baseUrl: "https://contract.test",
+      fetch: contractBackend,
+    }),
+  );
+
+  test("encoded path, query and validated response", async () => {
+    const contractUser = await contract.get("/users/:id", {
+      path: { id: "a/b#1" },
+      query: { expand: "teams" },
+    });
+    expect(contractUser.id).toBe("a/b#1");
+    expect(contractUser.name).toBe("Ada");
+    expect(contractBackend.history[0].url).toBe(
+      "https://contract.test/users/a%2Fb%231?expand=teams",
+    );
+  });
+
+  test("body is validated before sending", async () => {
+    const createdUser = await contract.post("/users", {
+      body: { name: "Grace" },
+    });
+    expect(createdUser.name).toBe("Grace");
+    await expect(
+      contract.post("/users", { body: { name: 1 } }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(contractBackend.calls("POST", "/users").length).toBe(1);
+  });
+
+  test("several path parameters and a missing one", async () => {
+    await contract.delete("/users/:id/posts/:postId", {
+      path: { id: 7, postId: 9 },
+    });
+    expect(contractBackend.calls("DELETE", "/users/7/posts/9").length).toBe(1);
+    const missingPath: any = await contract
+      .delete("/users/:id/posts/:postId", { path: { id: 7 } as any })
+      .catch((e) => e);
+    expect(missingPath).toBeInstanceOf(SafeFetchError);
+    expect(missingPath.message).toContain('"postId"');
+  });
+
+  // Comprobaciones de tipos (fallan en `tsc` si el contrato no se respeta)
+  const typeChecks = async () => {
+    // @ts-expect-error ruta inexistente
+    await contract.get("/users");
+    // @ts-expect-error método no declarado para la ruta
+    await contract.put("/users", { body: { name: "x" } });
+    // @ts-expect-error falta `path`
+    await contract.get("/users/:id");
+    // @ts-expect-error parámetro de path desconocido
+    await contract.get("/users/:id", { path: { uid: 1 } });
+    await contract.get("/users/:id", {
+      path: { id: 1 },
+      // @ts-expect-error query con tipo incorrecto
+      query: { expand: 1 },
+    });
+    const user: { id: string; name: string } = await contract.get(
+      "/users/:id",
+      { path: { id: 1 } },
+    );
+    // @ts-expect-error la respuesta no tiene `email`
+    user.email;
+  };
+  void typeChecks;
+});
+
+// ======================================================
+// 23. TEST DEL GENERADOR OPENAPI
+// ======================================================
+describe("🧬 23. OpenAPI Client Generator", () => {
+  const petsSpec: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: { title: "Pets", version: "1.0.0" },
+    servers: [{ url: "https://pets.test" }],
+    security: [{ bearer: [] }],
+    paths: {
+      "/pets/{petId}": {
+        parameters: [{ $ref: "#/components/parameters/PetId" }],
+        get: {
+          operationId: "get-pet",
+          parameters: [
+            { name: "expand", in: "query", schema: { type: "boolean" } },
+          ],
+          responses: {
+            "200": {
+              description: "ok",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Pet" },
+                },
+              },
+            },
+          },
+        },
+        put: {
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/NewPet" },
+              },
+            },
+          },
+          responses: { "204": { description: "updated" } },
+        },
+      },
+    },
+    components: {
+      parameters: {
+        PetId: {
+          name: "petId",
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        },
+      },
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer" },
+        key: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        NewPet: {
+          type: "object",
+          required: ["name"],
+          properties: {
+            name: { type: "string" },
+            tag: { type: ["string", "null"] },
+          },
+        },
+        Pet: {
+          allOf: [
+            { $ref: "#/components/schemas/NewPet" },
+            { type: "object", properties: { id: { type: "integer" } } },
+          ],
+        },
+        Kind: {
+          oneOf: [
+            { type: "string", enum: ["cat", "dog"] },
+            { type: "integer" },
+          ],
+        },
+        Dog: {
+          allOf: [
+            { type: "object", properties: { bark: { type: "boolean" } } },
+            { $ref: "#/components/schemas/NewPet" },
+          ],
+        },
+        Shape: {
+          oneOf: [
+            { type: "object", properties: { radius: { type: "number" } } },
+            { type: "object", properties: { side: { type: "number" } } },
+          ],
+        },
+        Owner: {
+          type: "object",
+          nullable: true,
+          properties: { name: { type: "string" } },
+        },
+        Collar: {
+          type: ["object", "null"],
+          properties: { "size-cm": { type: "integer" } },
+        },
+      },
+    },
+  };
+  const generated = generateClient(petsSpec);
+
+  test("schema types ($ref, allOf, oneOf, nullable)", () => {
+    expect(generated).toContain("export interface NewPet {");
+    expect(generated).toContain("tag?: string | null;");
+    expect(generated).toContain("export type Pet = NewPet & {");
+    expect(generated).toContain('export type Kind = "cat" | "dog" | number;');
+  });
+
+  test("an interface only for a single object literal", () => {
+    expect(generated).toContain("export type Dog = {");
+    expect(generated).toContain("} & NewPet;");
+    expect(generated).toContain("export type Shape = {");
+    expect(generated).toContain("export type Owner = {");
+    expect(generated).toContain("export type Collar = {");
+    expect(generated).toContain("} | null;");
+  });
+
+  test("the generated code type-checks", () => {
+    // Archivo virtual junto a index.ts para que `./index` se resuelva
+    const file = join(__dirname, "__generated-client__.ts");
+    const source = generateClient(petsSpec, { importPath: "./index" });
+    const options: ts.CompilerOptions = {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.esnext.d.ts", "lib.dom.d.ts"],
+    };
+    const host = ts.createCompilerHost(options);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (name, languageVersion, ...rest) =>
+      name === file
+        ? ts.createSourceFile(name, source, languageVersion)
+        : getSourceFile(name, languageVersion, ...rest);
+    const program = ts.createProgram([file], options, host);
+
+    const diagnostics = ts
+      .getPreEmitDiagnostics(program, program.getSourceFile(file))
+      .map((d) => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    expect(diagnostics).toEqual([]);
+  }, 30_000); // Crear el programa de TypeScript tarda unos segundos
+
+  test("one function per operation (params, body, response)", () => {
+    expect(generated).toContain(
+      "getPet: (params: { petId: string; expand?: boolean }, init?: RequestOptions)",
+    );
+    expect(generated).toContain(
+      "api.get<Pet>(`/pets/${encodeURIComponent(String(params.petId))}`, { ...init, params: { expand: params.expand } })",
+    );
+    expect(generated).toContain(
+      "putPetsByPetId: (params: { petId: string }, body: NewPet, init?: RequestOptions)",
+    );
+    expect(generated).toContain("api.put<void>(");
+    expect(generated).toContain(
+      'createSafeFetch({ baseUrl: "https://pets.test" })',
+    );
+  });
+
+  test("securitySchemes become typed headers", () => {
+    expect(generated).toContain("Authorization?: `Bearer ${string}`;");
+    expect(generated).toContain('"X-API-Key"?: string;');
+    expect(generated).toContain("@security bearer");
+  });
+
+  test("a non 3.x document throws", () => {
+    expect(() => generateClient({ openapi: "2.0" } as any)).toThrow(
+      "expected OpenAPI 3.x",
+    );
+  });
+});
+
+// ======================================================
+// 24. TEST DE PLANTILLAS DE PATH
+// ======================================================
+describe("🧩 24. Path Templates", () => {
+  const pathBackend = createMockTransport().on("*", "*", { status: 200 });
+  const apiPath = createSafeFetch({
+    baseUrl: "https://path.test:8080/v1",
+    fetch: pathBackend,
+  });
+
+  test(":param and {param} are encoded, port and query untouched", async () => {
+    await apiPath.get("/users/:id/posts/{postId}", {
+      path: { id: "a/b#c?d", postId: 7 },
+      params: { page: 1 },
+    });
+    await apiPath.post("/files:batchGet/:id", {}, { path: { id: "x y" } });
+    expect(pathBackend.history.map((r) => r.url)).toEqual([
+      "https://path.test:8080/v1/users/a%2Fb%23c%3Fd/posts/7?page=1",
+      "https://path.test:8080/v1/files:batchGet/x%20y",
+    ]);
+  });
+
+  test("missing or unknown parameters throw a descriptive error", async () => {
+    const missingParam: any = await apiPath
+      .get("/users/:id/posts/{postId}", { path: { id: 1 } as any })
+      .catch((e) => e);
+    const extraParam = await apiPath.try.get("/users/:id", {
+      path: { id: 1, slug: "x" } as any,
+    });
+    expect(missingParam).toBeInstanceOf(SafeFetchError);
+    expect(missingParam.message).toBe(
+      'Missing path parameter "postId" for /users/:id/posts/{postId}',
+    );
+    expect(!extraParam.ok && extraParam.error.message).toBe(
+      'Unknown path parameter "slug" for /users/:id',
+    );
+    expect(pathBackend.history.length).toBe(2);
+  });
+
+  test("without `path` the URL is left alone", async () => {
+    await apiPath.get("/literal/:id");
+    expect(pathBackend.history[2].url).toBe(
+      "https://path.test:8080/v1/literal/:id",
+    );
+  });
+});
+
+// ======================================================
+// 25. TEST DE SERIALIZACIÓN DE QUERY PARAMS
+// ======================================================
+describe("🔍 25. Query Serialization", () => {
+  const queryBackend = createMockTransport().on("*", "*", { status: 200 });
+  const queryUrl = () => decodeURIComponent(queryBackend.history.at(-1)!.url);
+  const apiQuery = createSafeFetch({
+    baseUrl: "https://query.test",
+    fetch: queryBackend,
+    paramsSerializer: { arrayFormat: "brackets" },
+  });
+  const queryParams = {
+    tags: ["a", "b c"],
+    filter: { status: "open", owner: { id: 7 } },
+    since: new Date("2024-01-02T03:04:05.000Z"),
+    q: "",
+    skip: undefined,
+  };
+
+  test("global brackets, nested objects, dates and an existing query/hash", async () => {
+    await apiQuery.get("/search?v=1#top", { params: queryParams });
+    expect(queryUrl()).toBe(
+      "https://query.test/search?v=1&tags[]=a&tags[]=b c&filter[status]=open&filter[owner][id]=7&since=2024-01-02T03:04:05.000Z&q=#top",
+    );
+  });
+
+  test("per-request options (comma, dots, sort, no empty strings)", async () => {
+    await apiQuery.get("/search", {
+      params: queryParams,
+      paramsSerializer: {
+        arrayFormat: "comma",
+        objectFormat: "dots",
+        skipEmptyStrings: true,
+        sort: true,
+        serializeDate: (d) => String(d.getTime()),
+      },
+    });
+    expect(queryUrl()).toBe(
+      "https://query.test/search?filter.owner.id=7&filter.status=open&since=1704164645000&tags=a,b c",
+    );
+  });
+
+  test("indices and a custom serializer", async () => {
+    await apiQuery.get("/search", {
+      params: { ids: [1, 2] },
+      paramsSerializer: { arrayFormat: "indices" },
+    });
+    expect(queryUrl()).toBe("https://query.test/search?ids[0]=1&ids[1]=2");
+    await apiQuery.get("/search", {
+      params: { ids: [1, 2] },
+      paramsSerializer: (p) => `custom=${Object.keys(p).join("-")}`,
+    });
+    expect(queryUrl()).toBe("https://query.test/search?custom=ids");
+  });
+});
+
+// ======================================================
+// 26. TEST DE CIRCUIT BREAKER
+// ======================================================
+describe("⚡ 26. Circuit Breaker", () => {
+  let clock = 0;
+  let downstreamUp = false;
+  const stateChanges: string[] = [];
+  const circuitBackend = createMockTransport()
+    .get("https://down.test/*", () =>
+      downstreamUp ? { body: { ok: true } } : { status: 503 },
+    )
+    .get("https://other.test/*", { body: { ok: true } });
+  const apiCircuit = createSafeFetch({
+    fetch: circuitBackend,
+    circuitBreaker: {
+      window: 10_000,
+      minimumRequests: 4,
+      failureThreshold: 0.5,
+      resetTimeout: 5_000,
+      now: () => clock,
+      onStateChange: ({ key, from, to }) =>
+        stateChanges.push(`${key}:${from}->${to}`),
+    },
+  });
+
+  test("opens on the failure rate and fails fast without retrying", async () => {
+    // 4 intentos (1 petición con 3 reintentos), todos 503 -> se abre
+    await apiCircuit
+      .get("https://down.test/a", { retry: { limit: 3, delay: 0 } })
+      .catch(() => {});
+    const openCircuit = apiCircuit.circuits.get("https://down.test");
+    const callsWhenOpened = circuitBackend.calls("GET").length;
+    const fastFail: any = await apiCircuit
+      .get("https://down.test/a", { retry: { limit: 3, delay: 0 } })
+      .catch((e) => e);
+    await apiCircuit.get("https://other.test/b");
+    expect(openCircuit).toMatchObject({
+      state: "open",
+      failures: 4,
+      retryAt: 5_000,
+    });
+    expect(fastFail).toBeInstanceOf(CircuitOpenError);
+    expect(fastFail.key).toBe("https://down.test");
+    expect(fastFail.attempts).toBe(1);
+    expect(circuitBackend.calls("GET").length).toBe(callsWhenOpened + 1);
+    expect(apiCircuit.circuits.get("https://other.test")?.state).toBe("closed");
+  });
+
+  test("half-open with a failed probe and a successful probe", async () => {
+    // Tras resetTimeout: half-open, la prueba falla -> vuelve a abrirse
+    clock = 5_000;
+    const probeState = apiCircuit.circuits.get("https://down.test")?.state;
+    await apiCircuit.get("https://down.test/a").catch(() => {});
+    const reopened = apiCircuit.circuits.get("https://down.test");
+
+    // Servicio recuperado: la prueba va bien -> se cierra
+    clock = 10_000;
+    downstreamUp = true;
+    const recovered = await apiCircuit.get<{ ok: boolean }>(
+      "https://down.test/a",
+    );
+    expect(probeState).toBe("half-open");
+    expect(reopened).toMatchObject({ state: "open", retryAt: 10_000 });
+    expect(recovered.ok).toBe(true);
+    expect(apiCircuit.circuits.get("https://down.test")?.state).toBe("closed");
+    expect(stateChanges).toEqual([
+      "https://down.test:closed->open",
+      "https://down.test:open->half-open",
+      "https://down.test:half-open->open",
+      "https://down.test:open->half-open",
+      "https://down.test:half-open->closed",
+    ]);
+  });
+
+  test("sliding window and per-request opt-out", async () => {
+    // Ventana deslizante: los fallos antiguos caducan
+    downstreamUp = false;
+    await apiCircuit.get("https://down.test/a").catch(() => {});
+    await apiCircuit.get("https://down.test/a").catch(() => {});
+    clock = 30_000;
+    const expired = apiCircuit.circuits.get("https://down.test");
+    expect(expired).toMatchObject({ requests: 0, state: "closed" });
+    await expect(
+      apiCircuit.get("https://down.test/a", { circuitBreaker: false }),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(apiCircuit.circuits.get("https://down.test")?.requests).toBe(0);
+  });
+
+  test("an error before sending is not recorded as an outcome", async () => {
+    // Una prueba half-open que no llega a salir (QueueTimeoutError) no cierra el circuito
+    let queuedClock = 0;
+    const queuedBackend = createMockTransport()
+      .get("https://down.test/*", { status: 503 })
+      .get("https://slow.test/*", { delay: 50, body: {} });
+    const apiQueuedCircuit = createSafeFetch({
+      fetch: queuedBackend,
+      maxConcurrent: 1,
+      circuitBreaker: {
+        minimumRequests: 1,
+        resetTimeout: 1_000,
+        now: () => queuedClock,
+      },
+    });
+    await apiQueuedCircuit.get("https://down.test/a").catch(() => {});
+    queuedClock = 1_000;
+    const slow = apiQueuedCircuit.get("https://slow.test/b");
+    await expect(
+      apiQueuedCircuit.get("https://down.test/a", { queueTimeout: 5 }),
+    ).rejects.toBeInstanceOf(QueueTimeoutError);
+    expect(apiQueuedCircuit.circuits.get("https://down.test")?.state).toBe(
+      "half-open",
+    );
+    await slow;
+    // El hueco de prueba quedó libre: la siguiente prueba sale (y falla)
+    await expect(
+      apiQueuedCircuit.get("https://down.test/a"),
+    ).rejects.toBeInstanceOf(HttpError);
+    expect(apiQueuedCircuit.circuits.get("https://down.test")?.state).toBe(
+      "open",
+    );
+  });
+});
+
+// ======================================================
+// 27. TEST DE RATE LIMIT
+// ======================================================
+describe("🪣 27. Rate Limit", () => {
+  const limitedBackend = createMockTransport()
+    .get("https://limited.test/busy", {
+      headers: { "RateLimit-Remaining": "0", "RateLimit-Reset": "2" },
+    })
+    .get("https://limited.test/429", {
+      status: 429,
+      headers: { "Retry-After": "3" },
+    })
+    .on("*", "*", { status: 200 });
+
+  test("immediate burst, the rest waits for a token", async () => {
+    const apiLimited = createSafeFetch({
+      fetch: limitedBackend,
+      rateLimit: { limit: 2, interval: 100 },
+    });
+
+    // 2 de ráfaga al instante, las otras 2 esperan un token (50ms cada uno)
+    const limitedStart = Date.now();
+    const burst = Promise.all(
+      [1, 2, 3, 4].map((i) => apiLimited.get(`https://limited.test/${i}`)),
+    );
+    await new Promise((r) => setTimeout(r, 10));
+    const duringBurst = apiLimited.rateLimits.get("https://limited.test");
+    const sentDuringBurst = limitedBackend.calls("GET").length;
+    await burst;
+    expect(sentDuringBurst).toBe(2);
+    expect(duringBurst).toMatchObject({ queued: 2, capacity: 2 });
+    expect(Date.now() - limitedStart).toBeGreaterThanOrEqual(90);
+    expect(limitedBackend.calls("GET").length).toBe(4);
+  });
+
+  test("strategy reject throws RateLimitError without sending or retrying", async () => {
+    const apiRejecting = createSafeFetch({
+      fetch: limitedBackend,
+      rateLimit: { limit: 1, interval: 10_000, strategy: "reject" },
+    });
+    const callsBeforeReject = limitedBackend.calls("GET").length;
+    await apiRejecting.get("https://limited.test/a");
+    const rejected: any = await apiRejecting
+      .get("https://limited.test/a", { retry: { limit: 2, delay: 0 } })
+      .catch((e) => e);
+    await apiRejecting.get("https://limited.test/a", { rateLimit: false });
+    expect(rejected).toBeInstanceOf(RateLimitError);
+    expect(rejected.key).toBe("https://limited.test");
+    expect(rejected.retryAfter).toBeGreaterThan(9_000);
+    expect(rejected.attempts).toBe(1);
+    expect(limitedBackend.calls("GET").length).toBe(callsBeforeReject + 2);
+  });
+
+  test("honors RateLimit-Remaining/Reset and Retry-After on 429", async () => {
+    // El servidor dice que no quedan peticiones: el bucket se pausa hasta el reset
+    const apiServer = createSafeFetch({
+      fetch: limitedBackend,
+      rateLimit: { limit: 100, maxWait: 500 },
+    });
+    await apiServer.get("https://limited.test/busy");
+    const paused = apiServer.rateLimits.get("https://limited.test");
+    const pausedError: any = await apiServer
+      .get("https://limited.test/a")
+      .catch((e) => e);
+    // `key` propio: un bucket por path
+    const apiRetryAfter = createSafeFetch({
+      fetch: limitedBackend,
+      rateLimit: { limit: 100, key: (url) => new URL(url).pathname },
+    });
+    await apiRetryAfter.get("https://limited.test/429").catch(() => {});
+    const after429 = apiRetryAfter.rateLimits.get("/429");
+    expect(paused).toMatchObject({ tokens: 0, serverRemaining: 0 });
+    expect((paused?.pausedUntil ?? 0) - Date.now()).toBeGreaterThan(1_500);
+    expect(pausedError).toBeInstanceOf(RateLimitError);
+    expect(pausedError.retryAfter).toBeGreaterThan(1_500);
+    expect((after429?.pausedUntil ?? 0) - Date.now()).toBeGreaterThan(2_500);
+  });
+
+  test("waiting for a token does not count toward timeout", async () => {
+    const apiPaced = createSafeFetch({
+      fetch: limitedBackend,
+      rateLimit: { limit: 1, interval: 100 },
+    });
+    const before = limitedBackend.calls("GET", "https://limited.test/paced");
+    const paced = await Promise.all(
+      [1, 2].map(() =>
+        apiPaced.get("https://limited.test/paced", {
+          timeout: 30,
+          retry: { limit: 2, delay: 0 },
+        }),
+      ),
+    );
+    expect(paced.length).toBe(2);
+    expect(
+      limitedBackend.calls("GET", "https://limited.test/paced").length,
+    ).toBe(before.length + 2);
+    expect(apiPaced.rateLimits.get("https://limited.test")?.queued).toBe(0);
+  });
+
+  test("maxWait is a deadline even if the server pauses the bucket meanwhile", async () => {
+    const pausingBackend = createMockTransport()
+      .get("https://pausing.test/first", {
+        delay: 20,
+        headers: { "RateLimit-Remaining": "0", "RateLimit-Reset": "2" },
+      })
+      .get("https://pausing.test/second", { status: 200 });
+    const apiPausing = createSafeFetch({
+      fetch: pausingBackend,
+      rateLimit: { limit: 1, interval: 50, maxWait: 200 },
+    });
+    const waitStart = Date.now();
+    const first = apiPausing.get("https://pausing.test/first");
+    const second: any = await apiPausing
+      .get("https://pausing.test/second", { retry: { limit: 2, delay: 0 } })
+      .catch((e) => e);
+    await first;
+    expect(second).toBeInstanceOf(RateLimitError);
+    expect(second.retryAfter).toBeGreaterThan(1_000);
+    expect(Date.now() - waitStart).toBeLessThan(1_000);
+    expect(
+      pausingBackend.calls("GET", "https://pausing.test/second").length,
+    ).toBe(0);
+    expect(apiPausing.rateLimits.get("https://pausing.test")?.queued).toBe(0);
+  });
+
+  test("a rejection is not recorded as a circuit outcome", async () => {
+    // Una prueba half-open rechazada por el rate limit no cierra el circuito
+    let limitedClock = 0;
+    const apiLimitedCircuit = createSafeFetch({
+      fetch: createMockTransport().get("https://down.test/*", { status: 503 }),
+      rateLimit: { limit: 1, interval: 60_000, strategy: "reject" },
+      circuitBreaker: {
+        minimumRequests: 1,
+        resetTimeout: 1_000,
+        now: () => limitedClock,
+      },
+    });
+    await apiLimitedCircuit.get("https://down.test/a").catch(() => {});
+    limitedClock = 1_000;
+    await expect(
+      apiLimitedCircuit.get("https://down.test/a"),
+    ).rejects.toBeInstanceOf(RateLimitError);
+    expect(apiLimitedCircuit.circuits.get("https://down.test")?.state).toBe(
+      "half-open",
+    );
+  });
+});
+
+// ======================================================
+// 28. TEST DE PAGINACIÓN
+// ======================================================
+describe("📚 28. Pagination", () => {
+  type Item = { id: number };
+  const range = (from: number, to: number): Item[] =>
+    Array.from({ length: to - from + 1 }, (_, i) => ({ id: from + i }));
+  let flakyPage = true;
+  const pagesBackend = createMockTransport()
+    .get("/repos", ({ query }) =>
+      query.get("page") === "2"
+        ? { body: range(3, 4) }
+        : {
+            body: range(1, 2),
+            headers: {
+              Link: '<https://pages.test/repos?page=2>; rel="next", <https://pages.test/repos?page=2>; rel="last"',
+            },
+          },
+    )
+    .get("/events", ({ query }) => {
+      if (query.get("cursor") === "c2" && flakyPage) {
+        flakyPage = false;
+        return { status: 503 };
+      }
+      return query.get("cursor") === "c2"
+        ? { body: { data: range(3, 3), meta: { next_cursor: null } } }
+        : { body: { data: range(1, 2), meta: { next_cursor: "c2" } } };
+    })
+    .get("/users", ({ query }) => {
+      const offset = Number(query.get("offset"));
+      return {
+        body: { results: range(offset + 1, Math.min(offset + 2, 5)) },
+      };
+    })
+    .get("/posts", ({ query }) => ({
+      body: Number(query.get("p")) <= 2 ? range(1, 3) : [],
+    }));
+  const apiPages = createSafeFetch({
+    baseUrl: "https://pages.test",
+    fetch: pagesBackend,
+    retry: { limit: 1, delay: 0 },
+  });
+
+  test("follows the Link rel=next header", async () => {
+    const linkIds: number[] = [];
+    for await (const repo of apiPages.paginate<Item>("/repos", {
+      params: { sort: "name" },
+    })) {
+      linkIds.push(repo.id);
+    }
+    const repoCalls = pagesBackend.calls("GET", "/repos");
+    expect(linkIds).toEqual([1, 2, 3, 4]);
+    expect(repoCalls.length).toBe(2);
+    expect(repoCalls[0].query.get("sort")).toBe("name");
+    expect(repoCalls[1].url).toBe("https://pages.test/repos?page=2");
+  });
+
+  test("cursor in the body, reusing the instance retries", async () => {
+    const eventPages: number[] = [];
+    for await (const page of apiPages
+      .paginate<Item>("/events", {
+        strategy: { type: "cursor", next: "meta.next_cursor" },
+      })
+      .pages()) {
+      eventPages.push(page.items.length);
+    }
+    const eventCalls = pagesBackend.calls("GET", "/events");
+    expect(eventPages).toEqual([2, 1]);
+    expect(eventCalls.length).toBe(3);
+    expect(eventCalls[0].query.has("cursor")).toBe(false);
+    expect(eventCalls[2].query.get("cursor")).toBe("c2");
+  });
+
+  test("offset and page strategies, toArray stops at limit", async () => {
+    const firstThree = await apiPages
+      .paginate<Item>("/users", { strategy: { type: "offset", limit: 2 } })
+      .toArray({ limit: 3 });
+    const allUsers = await apiPages
+      .paginate<Item>("/users", { strategy: { type: "offset", limit: 2 } })
+      .toArray();
+    const posts = await apiPages
+      .paginate<Item>("/posts", { strategy: { type: "page", param: "p" } })
+      .toArray();
+    expect(firstThree.map((u) => u.id)).toEqual([1, 2, 3]);
+    expect(allUsers.map((u) => u.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(pagesBackend.calls("GET", "/users").length).toBe(2 + 3);
+    expect(posts.length).toBe(6);
+    expect(pagesBackend.calls("GET", "/posts").length).toBe(3);
+  });
+
+  test("custom getNextRequest and cancelling between pages", async () => {
+    const stopper = new AbortController();
+    const customSeen: number[] = [];
+    await expect(
+      (async () => {
+        for await (const item of apiPages.paginate<Item>("/posts", {
+          signal: stopper.signal,
+          getNextRequest: (_response, _body, page) => ({
+            params: { p: page.index + 2 },
+          }),
+        })) {
+          customSeen.push(item.id);
+          if (customSeen.length === 4) stopper.abort();
+        }
+      })(),
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(customSeen.length).toBe(6);
+    expect(pagesBackend.calls("GET", "/posts").length).toBe(3 + 2);
+  });
+});
+
+// ======================================================
+// 29. TEST DE GRAPHQL
+// ======================================================
+describe("🕸️ 29. GraphQL", () => {
+  type GqlUser = { id: string; name: string };
+  const GetUser = {
+    kind: "Document",
+    definitions: [],
+    loc: {
+      source: {
+        body: "query GetUser($id: ID!) { user(id: $id) { id name } }",
+      },
+    },
+  } as DocumentNodeLike &
+    DocumentTypeDecoration<{ user: GqlUser }, { id: string }>;
+  class TypedDocumentString<TData, TVars>
+    extends String
+    implements DocumentTypeDecoration<TData, TVars>
+  {
+    __apiType?: (variables: TVars) => TData;
+  }
+  const RenameUser = new TypedDocumentString<
+    { renameUser: GqlUser },
+    { id: string; name: string }
+  >(
+    "fragment U on User { id name } mutation RenameUser($id: ID!, $name: String!) { renameUser(id: $id, name: $name) { ...U } }",
+  );
+
+  const persistedHashes = new Set<string>();
+  let gqlFlaky = true;
+  const gqlBackend = createMockTransport().on(
+    "*",
+    "/graphql",
+    ({ method, body, query }) => {
+      const payload = (
+        method === "GET"
+          ? {
+              query: query.get("query") ?? undefined,
+              variables: JSON.parse(query.get("variables") ?? "null"),
+              extensions: JSON.parse(query.get("extensions") ?? "null"),
+            }
+          : body
+      ) as {
+        query?: string;
+        variables?: { id?: string; name?: string };
+        extensions?: { persistedQuery?: { sha256Hash: string } };
+      };
+      const hash = payload.extensions?.persistedQuery?.sha256Hash;
+      if (hash && !payload.query && !persistedHashes.has(hash)) {
+        return { body: { errors: [{ message: "PersistedQueryNotFound" }] } };
+      }
+      if (hash && payload.query) persistedHashes.add(hash);
+      const id = payload.variables?.id;
+      if (id === "flaky" && gqlFlaky) {
+        gqlFlaky = false;
+        return { status: 503 };
+      }
+      if (id === "missing") {
+        return {
+          body: {
+            data: { user: null },
+            errors: [
+              { message: "User not found", path: ["user"] },
+              { message: "Audit failed" },
+            ],
+          },
+        };
+      }
+      if (id === "bad") {
+        return {
+          status: 400,
+          body: { errors: [{ message: "Variable $id is invalid" }] },
+        };
+      }
+      return {
+        body: {
+          data: payload.query?.includes("renameUser")
+            ? { renameUser: { id, name: payload.variables?.name } }
+            : { user: { id, name: "Ada" } },
+        },
+      };
+    },
+  );
+  const apiGql = createSafeFetch({
+    baseUrl: "https://gql.test",
+    fetch: gqlBackend,
+    retry: { limit: 1, delay: 0 },
+  });
+
+  test("typed POST with operationName, fragments and retries", async () => {
+    const { user: gqlUser } = await apiGql.graphql(GetUser, { id: "1" });
+    const gqlPost = gqlBackend.history.at(-1)!;
+    const gqlName: string = gqlUser.name;
+    // @ts-expect-error las variables se infieren del documento tipado
+    await apiGql.graphql(GetUser, { id: 1 }).catch(() => {});
+    const renamed = await apiGql.graphql(RenameUser, { id: "2", name: "Bo" });
+    const flaky = await apiGql.graphql<{ user: GqlUser }>(
+      "query { user(id: $id) { id } }",
+      { id: "flaky" },
+    );
+    expect(gqlName).toBe("Ada");
+    expect(gqlPost.method).toBe("POST");
+    expect((gqlPost.body as { operationName?: string }).operationName).toBe(
+      "GetUser",
+    );
+    expect(gqlPost.headers.get("Accept")).toContain("application/json");
+    expect(renamed.renameUser.name).toBe("Bo");
+    expect(
+      (gqlBackend.history.at(-3)!.body as { operationName?: string })
+        .operationName,
+    ).toBe("RenameUser");
+    expect(flaky.user.id).toBe("flaky");
+  });
+
+  test("mutations are not retried", async () => {
+    // Las mutations no se reintentan: podrían aplicarse dos veces
+    gqlFlaky = true;
+    const flakyMutation = await apiGql
+      .graphql(RenameUser, { id: "flaky", name: "Bo" })
+      .catch((e) => e);
+    expect(flakyMutation).toBeInstanceOf(HttpError);
+    expect(flakyMutation.status).toBe(503);
+    expect(gqlFlaky).toBe(false);
+  });
+
+  test("GraphQLError with errors and partial data (200 and 4xx)", async () => {
+    const partial = await apiGql
+      .graphql(GetUser, { id: "missing" })
+      .catch((e) => e);
+    const invalid = await apiGql
+      .graphql(GetUser, { id: "bad" })
+      .catch((e) => e);
+    expect(partial).toBeInstanceOf(GraphQLError);
+    expect(partial.message).toBe("GraphQL error: User not found (+1 more)");
+    expect(partial.errors[0].path?.[0]).toBe("user");
+    expect((partial.data as { user: null }).user).toBeNull();
+    expect(partial.status).toBe(200);
+    expect(partial.operationName).toBe("GetUser");
+    expect(invalid).toBeInstanceOf(GraphQLError);
+    expect(invalid.status).toBe(400);
+  });
+
+  test("persisted queries over GET with a fallback to the full query", async () => {
+    const apiApq = createSafeFetch({
+      baseUrl: "https://gql.test",
+      fetch: gqlBackend,
+      graphql: { persistedQueries: true },
+    });
+    const callsBeforeApq = gqlBackend.history.length;
+    await apiApq.graphql(GetUser, { id: "1" });
+    await apiApq.graphql(GetUser, { id: "2" });
+    await apiApq.graphql(RenameUser, { id: "2", name: "Bo" });
+    const apq = gqlBackend.history.slice(callsBeforeApq);
+    const expectedHash = Array.from(
+      new Uint8Array(
+        await crypto.subtle.digest(
+          "SHA-256",
+          new TextEncoder().encode(GetUser.loc!.source.body),
+        ),
+      ),
+      (b) => b.toString(16).padStart(2, "0"),
+    ).join("");
+    expect(apq.map((r) => r.method)).toEqual([
+      "GET",
+      "POST",
+      "GET",
+      "POST",
+      "POST",
+    ]);
+    expect(apq[0].query.has("query")).toBe(false);
+    expect(
+      JSON.parse(apq[0].query.get("extensions")!).persistedQuery.sha256Hash,
+    ).toBe(expectedHash);
+    expect(persistedHashes.has(expectedHash)).toBe(true);
+    expect(apq[2].query.get("operationName")).toBe("GetUser");
+  });
+});
+
+// ======================================================
+// 30. TEST DE SERIALIZADORES DEL BODY
+// ======================================================
+describe("🧾 30. Body Serializers", () => {
+  const bodyBackend = createMockTransport().on("*", "*", { status: 200 });
+  const apiBodies = createSafeFetch({
+    baseUrl: "https://bodies.test",
+    fetch: bodyBackend,
+    serializers: {
+      "application/yaml": (body: { name: string }) => `name: ${body.name}\n`,
+    },
+  });
+  const lastBody = () => bodyBackend.history.at(-1)!;
+
+  test("nested form-urlencoded, NDJSON, custom YAML and +json", async () => {
+    await apiBodies.post(
+      "/form",
+      { user: { name: "Ada Lovelace" }, tags: ["a", "b"], empty: null },
+      { headers: { "Content-Type": "application/x-www-form-urlencoded" } },
+    );
+    const formRequest = lastBody();
+    await apiBodies.post("/ndjson", [{ id: 1 }, { id: 2 }], {
+      headers: { "Content-Type": "application/x-ndjson" },
+    });
+    const ndjsonRequest = lastBody();
+    await apiBodies.put(
+      "/yaml",
+      { name: "Ada" },
+      { headers: { "Content-Type": "application/yaml" } },
+    );
+    const yamlRequest = lastBody();
+    await apiBodies.patch(
+      "/jsonapi",
+      { data: { id: "1" } },
+      { headers: { "Content-Type": "application/vnd.api+json" } },
+    );
+    const jsonApiRequest = lastBody();
+    expect(formRequest.body).toBe("user[name]=Ada%20Lovelace&tags=a&tags=b");
+    expect(formRequest.headers.get("Content-Type")).toBe(
+      "application/x-www-form-urlencoded",
+    );
+    expect(ndjsonRequest.body).toBe('{"id":1}\n{"id":2}\n');
+    expect(yamlRequest.body).toBe("name: Ada\n");
+    expect((jsonApiRequest.body as { data: { id: string } }).data.id).toBe("1");
+  });
+
+  test("lowercase content-type", async () => {
+    // El nombre del header no distingue mayúsculas
+    await apiBodies.post(
+      "/form",
+      { name: "Ada" },
+      { headers: { "content-type": "application/x-www-form-urlencoded" } },
+    );
+    const lowerRequest = lastBody();
+    expect(lowerRequest.body).toBe("name=Ada");
+    expect(lowerRequest.headers.get("Content-Type")).toBe(
+      "application/x-www-form-urlencoded",
+    );
+  });
+
+  test("objects with files become multipart, a Blob gets no JSON Content-Type", async () => {
+    const avatar = new Blob(["png-bytes"], { type: "image/png" });
+    await apiBodies.post("/upload", {
+      avatar,
+      profile: { name: "Ada", born: new Date("1815-12-10T00:00:00Z") },
+      tags: ["math", "poetry"],
+    });
+    const uploadRequest = lastBody();
+    const uploaded = uploadRequest.body as FormData;
+    await apiBodies.post("/raw", avatar);
+    const rawRequest = lastBody();
+    expect(uploaded).toBeInstanceOf(FormData);
+    expect(uploaded.get("avatar")).toBeInstanceOf(Blob);
+    expect(uploaded.get("profile[name]")).toBe("Ada");
+    expect(uploaded.get("profile[born]")).toBe("1815-12-10T00:00:00.000Z");
+    expect(uploaded.getAll("tags")).toEqual(["math", "poetry"]);
+    expect(uploadRequest.headers.has("Content-Type")).toBe(false);
+    expect(rawRequest.headers.get("Content-Type")).not.toBe("application/json");
+  });
+
+  test("a Content-Type without serializer throws without sending", async () => {
+    const callsBeforeXml = bodyBackend.history.length;
+    const noSerializer: any = await apiBodies
+      .post(
+        "/xml",
+        { name: "Ada" },
+        { headers: { "Content-Type": "application/xml" } },
+      )
+      .catch((e) => e);
+    expect(noSerializer).toBeInstanceOf(SafeFetchError);
+    expect(noSerializer.message).toContain('"application/xml"');
+    expect(bodyBackend.history.length).toBe(callsBeforeXml);
+  });
+});
+
+// ======================================================
+// 31. TEST DE PARSERS DE RESPUESTA
+// ======================================================
+describe("🧩 31. Response Parsers", () => {
+  const parseCsv = async (res: Response) =>
+    (await res.text())
+      .trim()
+      .split("\n")
+      .map((line) => line.split(","));
+  const parsersBackend = createMockTransport()
+    .get("/problem", {
+      status: 200,
+      headers: { "Content-Type": "application/problem+json; charset=utf-8" },
+      body: '{"title":"Out of credit"}',
+    })
+    .get("/report.csv", {
+      headers: { "Content-Type": "text/csv" },
+      body: "id,name\n1,Ada\n",
+    })
+    .get("/export", () => new Response(new TextEncoder().encode("1,Ada\n")))
+    .get("/feed", {
+      headers: { "Content-Type": "application/atom+xml" },
+      body: "<feed/>",
+    })
+    .get("/logo", {
+      headers: { "Content-Type": "image/png" },
+      body: new Blob(["png"]),
+    })
+    .get("/yaml", {
+      headers: { "Content-Type": "application/yaml" },
+      body: "name: Ada",
+    })
+    .get("/broken", {
+      headers: { "Content-Type": "application/json" },
+      body: '{"id": 1,',
+    })
+    .get("/html", { headers: { "Content-Type": "text/html" }, body: "<p>" })
+    .get("/readme", {
+      headers: { "Content-Type": "text/markdown" },
+      body: "# Ada",
+    })
+    .get("/buggy", { headers: { "Content-Type": "application/x-buggy" } })
+    .get("/aborted", {
+      headers: { "Content-Type": "application/x-aborted" },
+    });
+  const apiParsers = createSafeFetch({
+    baseUrl: "https://parsers.test",
+    fetch: parsersBackend,
+    parsers: {
+      "application/yaml": async (res) => ({ yaml: await res.text() }),
+      "Text/Markdown": async (res) => ({ markdown: await res.text() }),
+      "application/x-buggy": () => {
+        throw new Error("boom");
+      },
+      "application/x-aborted": () => {
+        throw new DOMException("The operation was aborted", "AbortError");
+      },
+    },
+  });
+  const auto = { responseType: "auto" } as const;
+
+  beforeEach(() => {
+    apiParsers.parsers.register("text/csv", parseCsv);
+  });
+
+  test("auto picks by Content-Type, suffixes, Accept and the registry", async () => {
+    const problem = await apiParsers.get<{ title: string }>("/problem", auto);
+    const csv = await apiParsers.get<string[][]>("/report.csv", auto);
+    const exported = await apiParsers.get<string[][]>("/export", {
+      ...auto,
+      headers: { Accept: "text/csv" },
+    });
+    const feed = await apiParsers.get("/feed", auto);
+    const logo = await apiParsers.get("/logo", auto);
+    const yaml = await apiParsers.get<{ yaml: string }>("/yaml", auto);
+    apiParsers.parsers.unregister("text/csv");
+    const csvAsText = await apiParsers.get("/report.csv", auto);
+    expect(problem.title).toBe("Out of credit");
+    expect(csv[1][1]).toBe("Ada");
+    expect(exported[0][1]).toBe("Ada");
+    expect(feed).toBe("<feed/>");
+    expect(logo).toBeInstanceOf(Blob);
+    expect(yaml.yaml).toBe("name: Ada");
+    expect(csvAsText).toBe("id,name\n1,Ada\n");
+  });
+
+  test("strict mode throws ParseError with the raw text", async () => {
+    const lenientBody = await apiParsers.get("/broken", auto);
+    const strictAuto: any = await apiParsers
+      .get("/broken", { ...auto, strictParsing: true })
+      .catch((e) => e);
+    const strictHtml = await apiParsers.get("/html", { strictParsing: true });
+    expect(lenientBody).toBe('{"id": 1,');
+    expect(strictAuto).toBeInstanceOf(ParseError);
+    expect(strictAuto.body).toBe('{"id": 1,');
+    expect(strictAuto.url).toBe("https://parsers.test/broken");
+    await expect(
+      apiParsers.get("/broken", { strictParsing: true }),
+    ).rejects.toBeInstanceOf(ParseError);
+    expect(strictHtml).toBe("<p>");
+  });
+
+  test("case-insensitive keys and Accept, parser errors", async () => {
+    const lowerAccept = await apiParsers.get<string[][]>("/export", {
+      ...auto,
+      headers: { accept: "text/csv" },
+    });
+    const readme = await apiParsers.get<{ markdown: string }>("/readme", auto);
+    const buggy: any = await apiParsers.get("/buggy", auto).catch((e) => e);
+    const abortedParse: Error = await apiParsers
+      .get<Error>("/aborted", auto)
+      .catch((e) => e);
+    expect(lowerAccept[0][1]).toBe("Ada");
+    expect(readme.markdown).toBe("# Ada");
+    expect(buggy).toBeInstanceOf(ParseError);
+    expect((buggy.cause as Error).message).toBe("boom");
+    expect(abortedParse).not.toBeInstanceOf(ParseError);
+    expect(abortedParse.name).toBe("AbortError");
+  });
+});
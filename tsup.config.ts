@@ -1,7 +1,7 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"], // Cambia esto según la ubicación de tu archivo principal
+  entry: ["src/index.ts", "src/cli.ts"], // Librería + CLI `safe-fetch-gen`
   format: ["esm", "cjs"], // Formatos de salida (ESM y CommonJS)
   dts: true, // Genera los archivos de declaración .d.ts
   sourcemap: true, // Genera mapas de origen